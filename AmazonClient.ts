@@ -1,7 +1,9 @@
-import fs from 'fs';
-import { join } from 'path';
-import { parse } from 'csv-parse';
-import { amountsMatch, combinations, getTotalAmount } from './utils';
+import { AmazonCsvError, AmazonCsvRow, readAmazonCsv } from './amazonCsv';
+import { AmazonExport, ExportFile, findExports } from './amazonExport';
+import { findSubsetWithSum, findSubsetWithSumBetween } from './subsetSum';
+import { Config, OrderSource, isInDateRange } from './Config';
+import { ItemCharges, allocateCharges } from './allocation';
+import { amountsMatch, getTotalAmount } from './utils';
 
 export interface Item {
   description: string;
@@ -10,13 +12,24 @@ export interface Item {
 
 export interface Shipment {
   trackingId: string;
-  shipmentDate: Date;
+  /**
+   * Null when the shipment has not shipped yet (or Amazon shows "Not Available")
+   */
+  shipmentDate: Date | null;
   amount: number;
   items: Item[];
 }
 
 export interface Order {
   orderId: string;
+  /**
+   * Name of the Amazon account the order was placed from
+   */
+  account: string;
+  /**
+   * Which part of the Amazon data export the order came from
+   */
+  source: OrderSource;
   orderDate: Date;
   usedGiftCard: boolean;
   shipments: Shipment[];
@@ -24,72 +37,300 @@ export interface Order {
 
 interface FlatItem {
   orderId: string;
+  source: OrderSource;
   orderDate: Date;
   usedGiftCard: boolean;
   trackingId: string;
-  shipmentDate: Date;
-  description: string;
-  amount: number;
+  shipmentDate: Date | null;
+  asin: string | null;
+  charges: ItemCharges;
+}
+
+/**
+ * An order history line and the split item it became
+ */
+interface OrderLine {
+  item: Item;
+  asin: string | null;
+  charges: ItemCharges;
+}
+
+/**
+ * An order or return that differs between overlapping exports, such as exports downloaded a month apart
+ */
+export interface ExportConflict {
+  orderId: string;
+  /**
+   * Path of the export whose version was dropped
+   */
+  olderExport: string;
+  /**
+   * Path of the export whose version was used
+   */
+  newerExport: string;
+  differences: string[];
 }
 
 export interface Return {
   orderId: string;
+  account: string;
   returnDate: Date;
   amount: number;
   items: Item[];
 }
 
+/**
+ * A change to an account's gift card balance: a gift card claimed or reloaded (positive), or balance spent on an order
+ * (negative)
+ */
+export interface GiftCardActivity {
+  account: string;
+  date: Date;
+  amount: number;
+  orderId: string | null;
+  description: string;
+}
+
 interface FlatReturn {
   orderId: string;
+  reversalId: string | null;
+  /**
+   * The returned item, when the return file has ASIN or title columns
+   */
+  asin: string | null;
+  description: string | null;
   returnDate: Date;
   amount: number;
 }
 
-function toDate(dateString: string): Date {
-  return new Date(dateString.substring(0, 10));
+/**
+ * The website of Amazon Fresh and Whole Foods orders in the order history
+ */
+const FRESH_WEBSITE = 'panda01';
+
+export const REFUND_DESCRIPTION = 'Refund';
+export const RETURN_FEE_DESCRIPTION = 'Return Fee';
+
+const RETAIL_FILE = /^Retail\.OrderHistory\.\d+\.csv$/;
+const DIGITAL_FILE = /^Digital Items\.csv$/;
+const RETURNS_FILE = /^Retail\.OrdersReturned\.Payments\.\d+\.csv$/;
+// Gift cards bought for someone else are order history, not balance activity
+const GIFT_CARD_FILE = /^(?!.*purchase).*gift\s*card.*\.csv$/i;
+
+function isOrderFile(name: string): boolean {
+  return RETAIL_FILE.test(name) || DIGITAL_FILE.test(name);
+}
+
+const RETAIL_COLUMNS = [
+  'Website',
+  'Order ID',
+  'Order Date',
+  'Unit Price',
+  'Unit Price Tax',
+  'Shipping Charge',
+  'Total Discounts',
+  'Total Owed',
+  'Quantity',
+  'Payment Instrument Type',
+  'Ship Date',
+  'Carrier Name & Tracking Number',
+  'Product Name',
+];
+const DIGITAL_COLUMNS = [
+  'OrderId',
+  'OrderDate',
+  'Title',
+  'OurPrice',
+  'OurPriceTax',
+  'QuantityOrdered',
+  'FulfilledDate',
+];
+const RETURN_COLUMNS = ['OrderID', 'RefundCompletionDate', 'AmountRefunded'];
+const GIFT_CARD_COLUMNS = ['Date', 'Amount'];
+const GIFT_CARD_PAYMENT_INSTRUMENTS = ['gift certificate/card', 'gift card', 'amazon gift card', 'gift card balance'];
+
+/**
+ * Whether the gift card balance was one of the ways an order was paid. Orders paid several ways list each payment
+ * instrument, such as "Visa - 1234 and Gift Certificate/Card".
+ */
+function isGiftCardPayment(paymentInstruments: string | null): boolean {
+  return (paymentInstruments ?? '')
+    .split(/\s+and\s+|\s*,\s*/i)
+    .some((instrument) => GIFT_CARD_PAYMENT_INSTRUMENTS.includes(instrument.trim().toLowerCase()));
+}
+
+/**
+ * Read the costs of an order history line. Unit prices and taxes are per unit; the other columns are for the line.
+ */
+function toItemCharges(row: AmazonCsvRow): ItemCharges {
+  const quantity = row.optionalAmount('Quantity') ?? 1;
+  const price = (row.optionalAmount('Unit Price') ?? 0) * quantity;
+  const tax = (row.optionalAmount('Unit Price Tax') ?? 0) * quantity;
+  const shipping = row.optionalAmount('Shipping Charge') ?? 0;
+  // Discounts are shown as negative amounts in some exports and positive in others
+  const discount = Math.abs(row.optionalAmount('Total Discounts') ?? 0);
+  const total = row.optionalAmount('Total Owed') ?? price + tax + shipping - discount;
+  return { description: row.string('Product Name'), price, tax, shipping, discount, total };
+}
+
+function toRetailItem(row: AmazonCsvRow): FlatItem {
+  return {
+    orderId: row.string('Order ID'),
+    source: row.optionalString('Website') === FRESH_WEBSITE ? 'fresh' : 'retail',
+    orderDate: row.date('Order Date'),
+    usedGiftCard: isGiftCardPayment(row.optionalString('Payment Instrument Type')),
+    trackingId: row.optionalString('Carrier Name & Tracking Number') ?? 'Not Available',
+    shipmentDate: row.optionalDate('Ship Date'),
+    asin: row.optionalString('ASIN'),
+    charges: toItemCharges(row),
+  };
+}
+
+function toDigitalItem(row: AmazonCsvRow): FlatItem {
+  const orderId = row.string('OrderId');
+  const quantity = row.optionalAmount('QuantityOrdered') ?? 1;
+  const price = (row.optionalAmount('OurPrice') ?? 0) * quantity;
+  const tax = (row.optionalAmount('OurPriceTax') ?? 0) * quantity;
+  return {
+    orderId,
+    source: 'digital',
+    orderDate: row.date('OrderDate'),
+    usedGiftCard: false,
+    trackingId: `Digital ${orderId}`,
+    shipmentDate: row.optionalDate('FulfilledDate'),
+    asin: row.optionalString('ASIN'),
+    charges: { description: row.string('Title'), price, tax, shipping: 0, discount: 0, total: price + tax },
+  };
 }
 
-const EXCLUDED_ORDERS = ['111-0256590-5355439'];
+function toFlatReturn(row: AmazonCsvRow): FlatReturn {
+  return {
+    orderId: row.string('OrderID'),
+    reversalId: row.optionalString('ReversalID'),
+    asin: row.optionalString('ASIN'),
+    description: row.optionalString('Title') ?? row.optionalString('Product Name'),
+    returnDate: row.date('RefundCompletionDate'),
+    amount: row.amount('AmountRefunded'),
+  };
+}
+
+interface ExportOrders {
+  amazonExport: AmazonExport;
+  orders: Order[];
+  /**
+   * Time of the latest order in the export, which tells which of two overlapping exports is newer
+   */
+  newestOrderTime: number;
+}
+
+function describeItems({ shipmentDate, items }: Shipment): string {
+  const itemDescriptions = items.map(({ description, amount }) => `${amount.toFixed(2)} ${description}`).sort();
+  return JSON.stringify([shipmentDate?.getTime() ?? null, itemDescriptions]);
+}
+
+function getOrderDifferences(older: Order, newer: Order, olderExport: string, newerExport: string): string[] {
+  const differences: string[] = [];
+  const trackingIds = new Set([...older.shipments, ...newer.shipments].map(({ trackingId }) => trackingId));
+  for (const trackingId of trackingIds) {
+    const olderShipment = older.shipments.find((shipment) => shipment.trackingId === trackingId);
+    const newerShipment = newer.shipments.find((shipment) => shipment.trackingId === trackingId);
+    if (!olderShipment) {
+      differences.push(`shipment ${trackingId} only in ${newerExport}`);
+    } else if (!newerShipment) {
+      differences.push(`shipment ${trackingId} only in ${olderExport}`);
+    } else if (olderShipment.amount.toFixed(2) !== newerShipment.amount.toFixed(2)) {
+      differences.push(
+        `shipment ${trackingId} is ${olderShipment.amount.toFixed(2)} in ${olderExport} ` +
+          `but ${newerShipment.amount.toFixed(2)} in ${newerExport}`,
+      );
+    } else if (describeItems(olderShipment) !== describeItems(newerShipment)) {
+      differences.push(`shipment ${trackingId} has different items or ship date`);
+    }
+  }
+  return differences;
+}
+
+function getReturnDifferences(older: Return, newer: Return, olderExport: string, newerExport: string): string[] {
+  const describe = ({ returnDate, amount }: Return) =>
+    `${amount.toFixed(2)} on ${returnDate.toISOString().slice(0, 10)}`;
+  return describe(older) === describe(newer)
+    ? []
+    : [`refund is ${describe(older)} in ${olderExport} but ${describe(newer)} in ${newerExport}`];
+}
+
+function toGiftCardActivity(row: AmazonCsvRow): Omit<GiftCardActivity, 'account'> {
+  return {
+    date: row.date('Date'),
+    amount: row.amount('Amount'),
+    orderId: row.optionalString('Order ID'),
+    description: row.optionalString('Description') ?? '',
+  };
+}
 
 export default class AmazonClient {
-  constructor(private orderDataPaths: string[]) {}
+  /**
+   * Rows of the Amazon exports that could not be read and were skipped, in lenient mode
+   */
+  readonly skippedRows: AmazonCsvError[] = [];
+  /**
+   * Orders and returns that differ between the exports they are in
+   */
+  readonly conflicts: ExportConflict[] = [];
+  /**
+   * Searches for returned items that stopped at their limits, so may have missed the items
+   */
+  readonly truncatedSearches: string[] = [];
+  private orderLines = new Map<Order, OrderLine[]>();
+  private exports: Promise<AmazonExport[]> | null = null;
+  /**
+   * Export each order was taken from, by order id
+   */
+  private orderExports = new Map<string, AmazonExport>();
+
+  /**
+   * @param inputs Amazon export directories or ZIP archives, optionally named with <name>=<path>
+   */
+  constructor(
+    private inputs: string[],
+    private config: Config,
+  ) {}
 
+  private getExports(): Promise<AmazonExport[]> {
+    this.exports ??= findExports(this.inputs, isOrderFile);
+    return this.exports;
+  }
+
+  /**
+   * Read the orders of every export. An order in several exports is only returned once, from the newest export.
+   */
   async getOrders(startDate: Date): Promise<Order[]> {
-    const allOrders: Order[] = [];
-    for (const orderDataPath of this.orderDataPaths) {
-      const parser = fs.createReadStream(join(orderDataPath, 'Retail.OrderHistory.1/Retail.OrderHistory.1.csv')).pipe(
-        parse({
-          delimiter: ',',
-          from_line: 2,
-          relax_quotes: true,
-          on_record: (record) => {
-            if (record[0] === 'panda01') {
-              return null;
-            }
-            return {
-              orderId: record[1],
-              orderDate: toDate(record[2]),
-              usedGiftCard: record[15].toLowerCase().includes('gift'),
-              trackingId: record[22],
-              shipmentDate: toDate(record[18]),
-              description: record[23],
-              amount: -parseFloat(record[9]),
-            };
-          },
-        }),
-      );
+    const exports: ExportOrders[] = [];
+    for (const amazonExport of await this.getExports()) {
+      const flatItems = [
+        ...(await this.readFiles(amazonExport, RETAIL_FILE, RETAIL_COLUMNS, toRetailItem)),
+        ...(await this.readFiles(amazonExport, DIGITAL_FILE, DIGITAL_COLUMNS, toDigitalItem)),
+      ];
+      const newestOrderTime = flatItems.reduce((newest, { orderDate }) => Math.max(newest, orderDate.getTime()), 0);
       const records: FlatItem[] = [];
-      for await (const record of parser) {
-        if (record.orderDate.getTime() < startDate.getTime()) {
+      for (const record of flatItems) {
+        if (!this.config.orderSources.includes(record.source)) {
+          continue;
+        }
+        // Pre-orders and backorders can be charged long after the order date, when they ship
+        const dates = [record.orderDate, record.shipmentDate].filter((date): date is Date => date !== null);
+        if (!dates.some((date) => isInDateRange(this.config, date, startDate))) {
           continue;
         }
         records.push(record);
       }
+      const shipmentLines = new Map<Shipment, FlatItem[]>();
       const orders = records.reduce<Order[]>((orders, flatItem) => {
         let order: Order | undefined = orders.find(({ orderId }) => orderId === flatItem.orderId);
         if (!order) {
           order = {
             orderId: flatItem.orderId,
+            account: amazonExport.account,
+            source: flatItem.source,
             orderDate: flatItem.orderDate,
             usedGiftCard: flatItem.usedGiftCard,
             shipments: [],
@@ -109,79 +350,241 @@ export default class AmazonClient {
           };
           order.shipments.push(shipment);
         }
-
-        shipment.amount += flatItem.amount;
-        shipment.items.push({
-          description: flatItem.description,
-          amount: flatItem.amount,
-        });
+        shipmentLines.set(shipment, [...(shipmentLines.get(shipment) ?? []), flatItem]);
 
         return orders;
       }, []);
-      allOrders.push(
-        ...orders
-          .filter((order) => !EXCLUDED_ORDERS.includes(order.orderId))
-          .sort((a, b) => a.orderDate.getTime() - b.orderDate.getTime()),
-      );
+      for (const [shipment, flatItems] of shipmentLines) {
+        shipment.items = allocateCharges(
+          flatItems.map(({ charges }) => charges),
+          this.config.allocation,
+        );
+        shipment.amount = getTotalAmount(shipment.items);
+      }
+      for (const order of orders) {
+        // Each line's item comes first in the shipment, before any separately allocated lines
+        const lines = order.shipments.flatMap((shipment) =>
+          shipmentLines.get(shipment)!.map(({ asin, charges }, i) => ({ item: shipment.items[i], asin, charges })),
+        );
+        this.orderLines.set(order, lines);
+      }
+      exports.push({ amazonExport, orders, newestOrderTime });
+    }
+    return (
+      this.mergeOrders(exports)
+        .filter((order) => !this.config.excludedOrders.includes(order.orderId))
+        // Free digital items (e.g. Kindle freebies) are never charged
+        .filter((order) => getTotalAmount(order.shipments) !== 0)
+        .sort((a, b) => a.orderDate.getTime() - b.orderDate.getTime())
+    );
+  }
+
+  /**
+   * Merge the orders of overlapping exports by order id. The version from the export with the latest order is used,
+   * and any differences from the other exports are recorded as conflicts.
+   */
+  private mergeOrders(exports: ExportOrders[]): Order[] {
+    const ordersById = new Map<string, Order>();
+    // Oldest first so newer versions replace older ones. Exports with the same latest order keep the input order.
+    for (const { amazonExport, orders } of [...exports].sort((a, b) => a.newestOrderTime - b.newestOrderTime)) {
+      for (const order of orders) {
+        const previousOrder = ordersById.get(order.orderId);
+        const previousExport = this.orderExports.get(order.orderId);
+        const differences =
+          previousOrder && previousExport
+            ? getOrderDifferences(previousOrder, order, previousExport.path, amazonExport.path)
+            : [];
+        if (previousExport && differences.length > 0) {
+          this.conflicts.push({
+            orderId: order.orderId,
+            olderExport: previousExport.path,
+            newerExport: amazonExport.path,
+            differences,
+          });
+        }
+        ordersById.set(order.orderId, order);
+        this.orderExports.set(order.orderId, amazonExport);
+      }
     }
-    return allOrders;
+    return [...ordersById.values()];
   }
 
+  /**
+   * Read the returns of every export and find the returned items in their orders. A return in several exports is only
+   * returned once, preferring the export its order was taken from. Only returns whose order is not found are remaining.
+   */
   async getReturns(orders: Order[], startDate: Date): Promise<{ returns: Return[]; remainingReturns: Return[] }> {
-    const returns: Return[] = [];
-    const unmatchedReturns: Return[] = [];
-    for (const orderDataPath of this.orderDataPaths) {
-      const parser = fs
-        .createReadStream(join(orderDataPath, 'Retail.OrdersReturned.Payments.1/Retail.OrdersReturned.Payments.1.csv'))
-        .pipe(
-          parse({
-            delimiter: ',',
-            from_line: 2,
-            relax_quotes: true,
-            on_record: (record) => ({
-              orderId: record[0],
-              returnDate: toDate(record[2]),
-              amount: parseFloat(record[4]),
-            }),
-          }),
-        );
-      const records: FlatReturn[] = [];
-      for await (const record of parser as unknown as FlatReturn[]) {
-        if (record.returnDate.getTime() < startDate.getTime()) {
+    const returnsByKey = new Map<string, { amazonReturn: Return; record: FlatReturn; amazonExport: AmazonExport }>();
+    for (const amazonExport of await this.getExports()) {
+      // Identical returns without a reversal id within one export (e.g. two equal refunds on a day) are counted
+      // separately
+      const occurrences = new Map<string, number>();
+      for (const record of await this.readFiles(amazonExport, RETURNS_FILE, RETURN_COLUMNS, toFlatReturn)) {
+        if (!isInDateRange(this.config, record.returnDate, startDate)) {
           continue;
         }
-        records.push(record);
-      }
-      for (const record of records) {
-        const completeReturn: Return = {
+        const amazonReturn: Return = {
           orderId: record.orderId,
+          account: amazonExport.account,
           returnDate: record.returnDate,
           amount: record.amount,
           items: [],
         };
-
-        const order = orders.find(({ orderId }) => orderId === record.orderId);
-        if (!order) {
-          unmatchedReturns.push(completeReturn);
-          continue;
+        let key = record.reversalId;
+        if (key === null) {
+          key = `${record.orderId}/${record.returnDate.getTime()}/${record.amount.toFixed(2)}`;
+          const occurrence = (occurrences.get(key) ?? 0) + 1;
+          occurrences.set(key, occurrence);
+          key += `#${occurrence}`;
         }
-
-        const orderItems = order.shipments.flatMap((shipment) => shipment.items);
-        let foundMatch = false;
-        for (const combination of combinations(orderItems)) {
-          const amount = getTotalAmount(combination);
-          if (amountsMatch(-amount, completeReturn.amount)) {
-            completeReturn.items = combination;
-            returns.push(completeReturn);
-            foundMatch = true;
-            break;
+        const previous = returnsByKey.get(key);
+        if (previous) {
+          const isReplaced = this.orderExports.get(record.orderId) !== previous.amazonExport;
+          const [older, newer] = isReplaced
+            ? [previous, { amazonReturn, amazonExport }]
+            : [{ amazonReturn, amazonExport }, previous];
+          const differences = getReturnDifferences(
+            older.amazonReturn,
+            newer.amazonReturn,
+            older.amazonExport.path,
+            newer.amazonExport.path,
+          );
+          if (differences.length > 0) {
+            this.conflicts.push({
+              orderId: record.orderId,
+              olderExport: older.amazonExport.path,
+              newerExport: newer.amazonExport.path,
+              differences,
+            });
+          }
+          if (!isReplaced) {
+            continue;
           }
         }
-        if (!foundMatch) {
-          unmatchedReturns.push(completeReturn);
-        }
+        returnsByKey.set(key, { amazonReturn, record, amazonExport });
+      }
+    }
+
+    const returns: Return[] = [];
+    const unmatchedReturns: Return[] = [];
+    for (const { amazonReturn, record } of returnsByKey.values()) {
+      const order = orders.find(({ orderId }) => orderId === amazonReturn.orderId);
+      if (!order) {
+        unmatchedReturns.push(amazonReturn);
+        continue;
       }
+      amazonReturn.items = this.getReturnedItems(order, record);
+      returns.push(amazonReturn);
     }
     return { returns, remainingReturns: unmatchedReturns };
   }
+
+  /**
+   * Find the order items a refund was for, as negative amounts adding up to the refund. In order of preference:
+   * - the items named by the return file's own ASIN or title columns
+   * - items adding up to the refund, at their split amounts, then with their tax, then without tax
+   * - the same, allowing for a restocking or return shipping fee of up to returnFeeMaxAmount or returnFeeMaxPercent
+   * - a single Refund item
+   */
+  private getReturnedItems(order: Order, record: FlatReturn): Item[] {
+    const refund = -record.amount;
+    const lines = this.orderLines.get(order) ?? [];
+
+    const namedLines = lines.filter(({ asin, charges }) =>
+      record.asin !== null ? asin === record.asin : charges.description === record.description,
+    );
+    if (namedLines.length > 0) {
+      const namedItems = namedLines.map(({ item }) => item);
+      // Only some units of the line may have been returned
+      return amountsMatch(getTotalAmount(namedItems), refund)
+        ? namedItems
+        : [{ description: namedLines[0].charges.description, amount: refund }];
+    }
+    if (record.description !== null) {
+      return [{ description: record.description, amount: refund }];
+    }
+
+    const candidateItems: Item[][] = [
+      order.shipments.flatMap(({ items }) => items),
+      lines.map(({ charges }) => ({ description: charges.description, amount: -(charges.price + charges.tax) })),
+      lines.map(({ charges }) => ({ description: charges.description, amount: -charges.price })),
+    ];
+    const reportTruncation = ({ isTruncated }: { isTruncated: boolean }) => {
+      if (isTruncated) {
+        this.truncatedSearches.push(`Items of order ${order.orderId} returned on ${record.returnDate.toISOString()}`);
+      }
+    };
+    for (const items of candidateItems) {
+      const result = findSubsetWithSum(items, refund, this.config);
+      reportTruncation(result);
+      if (result.subset) {
+        return result.subset;
+      }
+    }
+
+    // The fee is at most returnFeeMaxAmount or returnFeeMaxPercent of the returned items
+    const maxItemsAmount = Math.max(
+      record.amount + this.config.returnFeeMaxAmount,
+      record.amount / (1 - this.config.returnFeeMaxPercent / 100),
+    );
+    for (const items of candidateItems) {
+      const result = findSubsetWithSumBetween(items, refund, -maxItemsAmount, this.config);
+      reportTruncation(result);
+      const returnedItems = result.subset;
+      if (returnedItems) {
+        const fee = Number((refund - getTotalAmount(returnedItems)).toFixed(2));
+        return [...returnedItems, { description: RETURN_FEE_DESCRIPTION, amount: fee }];
+      }
+    }
+
+    return [{ description: REFUND_DESCRIPTION, amount: refund }];
+  }
+
+  /**
+   * Read the gift card activity of every export. Activity that is in several exports is only returned once.
+   */
+  async getGiftCardActivity(): Promise<GiftCardActivity[]> {
+    const activityByKey = new Map<string, GiftCardActivity>();
+    for (const amazonExport of await this.getExports()) {
+      // Identical activity within one export (e.g. two reloads of the same amount on a day) is counted separately
+      const occurrences = new Map<string, number>();
+      for (const record of await this.readFiles(amazonExport, GIFT_CARD_FILE, GIFT_CARD_COLUMNS, toGiftCardActivity)) {
+        const key = [record.date.getTime(), record.amount.toFixed(2), record.orderId, record.description].join('/');
+        const occurrence = (occurrences.get(key) ?? 0) + 1;
+        occurrences.set(key, occurrence);
+        activityByKey.set(`${key}#${occurrence}`, { account: amazonExport.account, ...record });
+      }
+    }
+    return [...activityByKey.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Read every file of the export whose name matches, such as each numbered Retail.OrderHistory.N.csv. Physical,
+   * Amazon Fresh and Whole Foods orders are in the order history; Kindle, Prime Video, app and Audible purchases are in
+   * Digital Items.csv, where each digital order is treated as a single shipment charged when it was fulfilled.
+   */
+  private async readFiles<T>(
+    amazonExport: AmazonExport,
+    namePattern: RegExp,
+    columns: string[],
+    toRecord: (row: AmazonCsvRow) => T,
+  ): Promise<T[]> {
+    const records: T[] = [];
+    for (const file of amazonExport.files.filter(({ name }) => namePattern.test(name))) {
+      records.push(...(await this.readCsv(file, columns, toRecord)));
+    }
+    return records;
+  }
+
+  private async readCsv<T>(file: ExportFile, columns: string[], toRecord: (row: AmazonCsvRow) => T): Promise<T[]> {
+    const { records, skippedRows } = await readAmazonCsv(
+      file.path,
+      file.open(),
+      columns,
+      toRecord,
+      this.config.lenient,
+    );
+    this.skippedRows.push(...skippedRows);
+    return records;
+  }
 }
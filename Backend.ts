@@ -0,0 +1,167 @@
+import { JoinedRecord } from './Joiner';
+import { Config, ConfigError } from './Config';
+import MintClient from './MintClient';
+import MonarchClient from './MonarchClient';
+import YnabClient from './YnabClient';
+import StatementClient from './StatementClient';
+import { amountsMatch } from './utils';
+
+export interface ChildTransaction {
+  description: string;
+  amount: number;
+  /**
+   * Name of the category in the backend, when it has one
+   */
+  category?: string;
+}
+export interface Transaction {
+  id: string;
+  amount: number;
+  date: Date;
+  children: ChildTransaction[];
+}
+
+/**
+ * Somewhere Amazon purchase transactions can be read from
+ */
+export interface TransactionSource {
+  /**
+   * Get the Amazon transactions on or after the start date (and before the configured end date), oldest first
+   */
+  getTransactions(startDate: Date): Promise<Transaction[]>;
+}
+
+/**
+ * Somewhere joined records can be written back to
+ */
+export interface TransactionSink {
+  /**
+   * Apply the joined record's items to its transaction, as a description update for a single item or a split
+   */
+  updateTransaction(joinedRecord: JoinedRecord): Promise<void>;
+
+  /**
+   * Restore a transaction to a previously snapshotted description and split
+   */
+  restoreTransaction(transaction: Transaction): Promise<void>;
+
+  /**
+   * Read a transaction again right before it is updated, or get null if it no longer exists, so that changes made
+   * since it was read are not overwritten. Backends without it are not checked.
+   */
+  getCurrentTransaction?(transaction: Transaction): Promise<Transaction | null>;
+
+  /**
+   * Get why the transaction, as it currently is, cannot be updated or restored, or null if it can. Checked for every
+   * transaction before anything is written, so that a run or undo does not stop partway through.
+   */
+  getUnwritableReason?(transaction: Transaction): string | null;
+}
+
+/**
+ * What happened to a joined record when writing the run's updates: updated, failed with an error, not updated because
+ * its transaction changed since it was read (a conflict), or skipped because an earlier error (such as rejected
+ * credentials) would have failed it too
+ */
+export interface UpdateResult {
+  joinedRecord: JoinedRecord;
+  status: 'updated' | 'failed' | 'conflict' | 'skipped';
+  error: Error | null;
+}
+
+/**
+ * A finance service that transactions are linked in
+ */
+export interface Backend extends TransactionSource, TransactionSink {
+  /**
+   * Name of the service for display, e.g. "Mint"
+   */
+  readonly displayName: string;
+
+  /**
+   * Forget any stored credentials so that they are requested again on the next call
+   */
+  clearCredentials(): Promise<void>;
+}
+
+/**
+ * Whether the original (bank statement) description of a transaction looks like an Amazon purchase
+ */
+export function isAmazonDescription(description: string, config: Config): boolean {
+  const originalDescription = description.toLowerCase();
+  for (const keyword of config.descriptionKeywords) {
+    if (originalDescription.includes(keyword)) {
+      let matches = true;
+      for (const antiKeyword of config.descriptionAntiKeywords) {
+        if (originalDescription.includes(antiKeyword)) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function sortChildren(children: ChildTransaction[]): ChildTransaction[] {
+  return [...children].sort((a, b) => a.description.localeCompare(b.description) || a.amount - b.amount);
+}
+
+/**
+ * List how a transaction changed from the version that was matched to the current one: its amount, or its items'
+ * descriptions, amounts and categories. The items are compared in description order, since a backend may return
+ * them in any order.
+ */
+export function getTransactionChanges(matched: Transaction, current: Transaction | null): string[] {
+  if (!current) {
+    return ['the transaction no longer exists'];
+  }
+  const changes: string[] = [];
+  if (!amountsMatch(matched.amount, current.amount)) {
+    changes.push(`amount changed from ${matched.amount.toFixed(2)} to ${current.amount.toFixed(2)}`);
+  }
+  if (matched.children.length !== current.children.length) {
+    changes.push(`split changed from ${matched.children.length} to ${current.children.length} items`);
+    return changes;
+  }
+  const currentChildren = sortChildren(current.children);
+  sortChildren(matched.children).forEach((child, i) => {
+    const currentChild = currentChildren[i];
+    if (child.description !== currentChild.description) {
+      changes.push(`description changed from "${child.description}" to "${currentChild.description}"`);
+    }
+    if (!amountsMatch(child.amount, currentChild.amount)) {
+      changes.push(
+        `amount of "${child.description}" changed from ${child.amount.toFixed(2)} to ${currentChild.amount.toFixed(2)}`,
+      );
+    }
+    if ((child.category ?? null) !== (currentChild.category ?? null)) {
+      changes.push(
+        `category of "${child.description}" changed from ${child.category ?? 'none'} to ${
+          currentChild.category ?? 'none'
+        }`,
+      );
+    }
+  });
+  return changes;
+}
+
+const BACKENDS: Record<string, (config: Config) => Backend> = {
+  mint: (config) => new MintClient(config),
+  monarch: (config) => new MonarchClient(config),
+  ynab: (config) => new YnabClient(config),
+  statement: (config) => new StatementClient(config),
+};
+
+export function createBackend(config: Config): Backend {
+  const factory = BACKENDS[config.backend];
+  if (!factory) {
+    throw new ConfigError(
+      `Invalid backend: ${JSON.stringify(config.backend)}. Expected one of ${Object.keys(BACKENDS).join(', ')}.`,
+    );
+  }
+  return factory(config);
+}
@@ -0,0 +1,54 @@
+import { Transaction } from './Backend';
+import { Config } from './Config';
+
+function normalizeDescription(description: string): string {
+  return description.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Picks a category for each item, from the configured rules or else from the category most often given to the same
+ * description in the existing transactions' splits
+ */
+export default class Categorizer {
+  /**
+   * How many times each category was used, by normalized description
+   */
+  private history = new Map<string, Map<string, number>>();
+
+  constructor(
+    private config: Config,
+    transactions: Transaction[],
+  ) {
+    for (const { children } of transactions) {
+      for (const { description, category } of children) {
+        if (category) {
+          const key = normalizeDescription(description);
+          const counts = this.history.get(key) ?? new Map<string, number>();
+          counts.set(category, (counts.get(category) ?? 0) + 1);
+          this.history.set(key, counts);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the category of an item description (including the description prefix), or null when no rule matches and the
+   * description has not been categorized before. The first matching rule wins. Ties in the history go to the category
+   * that comes first alphabetically, so the result does not depend on the order of the transactions.
+   */
+  getCategory(description: string): string | null {
+    const { descriptionPrefix, categoryRules } = this.config;
+    const itemDescription = description.startsWith(descriptionPrefix)
+      ? description.substring(descriptionPrefix.length)
+      : description;
+    const rule = categoryRules.find(({ pattern }) => pattern.test(itemDescription));
+    if (rule) {
+      return rule.category;
+    }
+    const counts = this.history.get(normalizeDescription(description));
+    if (!counts) {
+      return null;
+    }
+    return [...counts].sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b))[0][0];
+  }
+}
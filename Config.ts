@@ -0,0 +1,430 @@
+import { readFile } from 'fs/promises';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_CONFIG_PATH = './config.json';
+
+export const MATCHING_MODES = ['greedy', 'global'] as const;
+export type MatchingMode = (typeof MATCHING_MODES)[number];
+export const ALLOCATION_MODES = ['proportional', 'separate', 'none'] as const;
+export type AllocationMode = (typeof ALLOCATION_MODES)[number];
+export const ORDER_SOURCES = ['retail', 'fresh', 'digital'] as const;
+export type OrderSource = (typeof ORDER_SOURCES)[number];
+export const DESCRIPTION_PLACEHOLDERS = ['prefix', 'title', 'quantity', 'orderId', 'account'] as const;
+export type DescriptionPlaceholder = (typeof DESCRIPTION_PLACEHOLDERS)[number];
+
+/**
+ * Category for the items whose description matches the pattern
+ */
+export interface CategoryRule {
+  pattern: RegExp;
+  category: string;
+}
+
+export interface Config {
+  startDate: Date;
+  endDate: Date | null;
+  windowMs: number;
+  excludedOrders: string[];
+  descriptionKeywords: string[];
+  descriptionAntiKeywords: string[];
+  descriptionPrefix: string;
+  giftCardDescription: string;
+  backend: string;
+  mintApiUrl: string;
+  monarchApiUrl: string;
+  ynabApiUrl: string;
+  ynabBudgetId: string;
+  ynabAccountIds: string[];
+  statementFiles: string[];
+  statementOutput: string;
+  subsetMaxItems: number;
+  subsetMaxSize: number;
+  subsetTimeLimitMs: number;
+  subsetMaxGroups: number;
+  matching: MatchingMode;
+  shipmentWindowBeforeMs: number;
+  shipmentWindowAfterMs: number;
+  allocation: AllocationMode;
+  orderSources: OrderSource[];
+  lenient: boolean;
+  returnFeeMaxAmount: number;
+  returnFeeMaxPercent: number;
+  categoryRules: CategoryRule[];
+  descriptionTemplate: string;
+  descriptionMaxLength: number;
+  mintRequestsPerSecond: number;
+  browserPath: string | null;
+  mintCredentialsFile: string | null;
+  mintCredentialsMaxAgeMs: number;
+}
+
+/**
+ * Config values as they appear in the config file or on the command line, before validation
+ */
+export interface RawConfig {
+  since?: unknown;
+  until?: unknown;
+  windowDays?: unknown;
+  excludedOrders?: unknown;
+  descriptionKeywords?: unknown;
+  descriptionAntiKeywords?: unknown;
+  descriptionPrefix?: unknown;
+  giftCardDescription?: unknown;
+  backend?: unknown;
+  mintApiUrl?: unknown;
+  monarchApiUrl?: unknown;
+  ynabApiUrl?: unknown;
+  ynabBudgetId?: unknown;
+  ynabAccountIds?: unknown;
+  statementFiles?: unknown;
+  statementOutput?: unknown;
+  subsetMaxItems?: unknown;
+  subsetMaxSize?: unknown;
+  subsetTimeLimitMs?: unknown;
+  subsetMaxGroups?: unknown;
+  matching?: unknown;
+  shipmentWindowBeforeDays?: unknown;
+  shipmentWindowAfterDays?: unknown;
+  allocation?: unknown;
+  orderSources?: unknown;
+  lenient?: unknown;
+  returnFeeMaxAmount?: unknown;
+  returnFeeMaxPercent?: unknown;
+  categoryRules?: unknown;
+  descriptionTemplate?: unknown;
+  descriptionMaxLength?: unknown;
+  mintRequestsPerSecond?: unknown;
+  browserPath?: unknown;
+  mintCredentialsFile?: unknown;
+  mintCredentialsMaxAgeHours?: unknown;
+}
+
+const CONFIG_KEYS: (keyof RawConfig)[] = [
+  'since',
+  'until',
+  'windowDays',
+  'excludedOrders',
+  'descriptionKeywords',
+  'descriptionAntiKeywords',
+  'descriptionPrefix',
+  'giftCardDescription',
+  'backend',
+  'mintApiUrl',
+  'monarchApiUrl',
+  'ynabApiUrl',
+  'ynabBudgetId',
+  'ynabAccountIds',
+  'statementFiles',
+  'statementOutput',
+  'subsetMaxItems',
+  'subsetMaxSize',
+  'subsetTimeLimitMs',
+  'subsetMaxGroups',
+  'matching',
+  'shipmentWindowBeforeDays',
+  'shipmentWindowAfterDays',
+  'allocation',
+  'orderSources',
+  'lenient',
+  'returnFeeMaxAmount',
+  'returnFeeMaxPercent',
+  'categoryRules',
+  'descriptionTemplate',
+  'descriptionMaxLength',
+  'mintRequestsPerSecond',
+  'browserPath',
+  'mintCredentialsFile',
+  'mintCredentialsMaxAgeHours',
+];
+
+export class ConfigError extends Error {}
+
+const DEFAULT_CONFIG: RawConfig = {
+  windowDays: 14,
+  excludedOrders: [],
+  descriptionKeywords: ['amazon', 'amzn'],
+  descriptionAntiKeywords: ['web services', 'clinic'],
+  descriptionPrefix: 'Amazon - ',
+  giftCardDescription: 'Gift Card',
+  backend: 'mint',
+  mintApiUrl: 'https://mint.intuit.com/pfm/v1',
+  monarchApiUrl: 'https://api.monarchmoney.com/graphql',
+  ynabApiUrl: 'https://api.ynab.com/v1',
+  ynabBudgetId: 'last-used',
+  ynabAccountIds: [],
+  statementFiles: [],
+  statementOutput: './proposed-splits.csv',
+  subsetMaxItems: 40,
+  subsetMaxSize: 30,
+  subsetTimeLimitMs: 1000,
+  subsetMaxGroups: 5000,
+  matching: 'greedy',
+  shipmentWindowBeforeDays: 2,
+  shipmentWindowAfterDays: 7,
+  allocation: 'proportional',
+  orderSources: [...ORDER_SOURCES],
+  lenient: false,
+  returnFeeMaxAmount: 10,
+  returnFeeMaxPercent: 20,
+  categoryRules: [],
+  descriptionTemplate: '{prefix}{title}{quantity}',
+  descriptionMaxLength: 100,
+  mintRequestsPerSecond: 2,
+  mintCredentialsMaxAgeHours: 12,
+};
+
+function toDate(name: string, value: unknown): Date {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a date formatted as YYYY-MM-DD.`);
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().substring(0, 10) !== value) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)} is not a valid date.`);
+  }
+  return date;
+}
+
+function toPositiveNumber(name: string, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !isFinite(number) || number <= 0) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a positive number.`);
+  }
+  return number;
+}
+
+function toNonNegativeNumber(name: string, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !isFinite(number) || number < 0) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a number of at least 0.`);
+  }
+  return number;
+}
+
+function toPercentage(name: string, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !isFinite(number) || number < 0 || number >= 100) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a percentage from 0 to below 100.`);
+  }
+  return number;
+}
+
+function toPositiveInteger(name: string, value: unknown): number {
+  const number = toPositiveNumber(name, value);
+  if (!Number.isInteger(number)) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a whole number.`);
+  }
+  return number;
+}
+
+function toOneOf<T extends string>(name: string, value: unknown, values: readonly T[]): T {
+  if (!(values as readonly unknown[]).includes(value)) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected one of ${values.join(', ')}.`);
+  }
+  return value as T;
+}
+
+function toListOf<T extends string>(name: string, value: unknown, values: readonly T[]): T[] {
+  const list = toStringList(name, value);
+  const unknownValues = list.filter((item) => !(values as readonly string[]).includes(item));
+  if (unknownValues.length > 0) {
+    throw new ConfigError(`Invalid ${name}: ${unknownValues.join(', ')}. Expected some of ${values.join(', ')}.`);
+  }
+  return list as T[];
+}
+
+function toString(name: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a string.`);
+  }
+  return value;
+}
+
+function toBoolean(name: string, value: unknown): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected true or false.`);
+  }
+  return value;
+}
+
+function toStringList(name: string, value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string' || entry.trim() === '')) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a list of non-empty strings.`);
+  }
+  return value.map((entry: string) => entry.trim());
+}
+
+/**
+ * Read rules written as { "keyword": "...", "category": "..." } or { "pattern": "<regular expression>", "category":
+ * "..." }. Both match case insensitively.
+ */
+function toCategoryRules(name: string, value: unknown): CategoryRule[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigError(`Invalid ${name}: ${JSON.stringify(value)}. Expected a list of rules.`);
+  }
+  return value.map((rule: Record<string, unknown> | null) => {
+    const { keyword, pattern, category } = rule ?? {};
+    if (typeof category !== 'string' || category.trim() === '' || (keyword === undefined) === (pattern === undefined)) {
+      throw new ConfigError(
+        `Invalid ${name} rule: ${JSON.stringify(rule)}. Expected a category and either a keyword or a pattern.`,
+      );
+    }
+    if (keyword !== undefined) {
+      const escapedKeyword = toString(`${name} keyword`, keyword).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return { pattern: new RegExp(escapedKeyword, 'i'), category: category.trim() };
+    }
+    const source = toString(`${name} pattern`, pattern);
+    try {
+      return { pattern: new RegExp(source, 'i'), category: category.trim() };
+    } catch (e) {
+      throw new ConfigError(`Invalid ${name} pattern: ${JSON.stringify(source)}. ${(e as Error).message}.`);
+    }
+  });
+}
+
+function toDescriptionTemplate(name: string, value: unknown): string {
+  const template = toString(name, value);
+  const placeholders = [...template.matchAll(/\{(\w+)\}/g)].map(([, placeholder]) => placeholder);
+  const unknownPlaceholders = placeholders.filter(
+    (placeholder) => !(DESCRIPTION_PLACEHOLDERS as readonly string[]).includes(placeholder),
+  );
+  if (unknownPlaceholders.length > 0 || !placeholders.includes('title')) {
+    throw new ConfigError(
+      `Invalid ${name}: ${JSON.stringify(value)}. Expected a template with {title} and any of ` +
+        `${DESCRIPTION_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')}.`,
+    );
+  }
+  return template;
+}
+
+async function readConfigFile(configPath: string | null): Promise<RawConfig> {
+  let contents: string;
+  try {
+    contents = (await readFile(configPath ?? DEFAULT_CONFIG_PATH)).toString();
+  } catch (e) {
+    if (configPath === null) {
+      // The default config file is optional
+      return {};
+    }
+    throw new ConfigError(`Unable to read config file ${configPath}: ${(e as Error).message}`);
+  }
+  let rawConfig: unknown;
+  try {
+    rawConfig = JSON.parse(contents);
+  } catch (e) {
+    throw new ConfigError(
+      `Config file ${configPath ?? DEFAULT_CONFIG_PATH} is not valid JSON: ${(e as Error).message}`,
+    );
+  }
+  if (typeof rawConfig !== 'object' || rawConfig === null || Array.isArray(rawConfig)) {
+    throw new ConfigError(`Config file ${configPath ?? DEFAULT_CONFIG_PATH} must contain a JSON object.`);
+  }
+  const unknownKeys = Object.keys(rawConfig).filter((key) => !CONFIG_KEYS.includes(key as keyof RawConfig));
+  if (unknownKeys.length > 0) {
+    throw new ConfigError(
+      `Unknown key(s) in config file ${configPath ?? DEFAULT_CONFIG_PATH}: ${unknownKeys.join(', ')}`,
+    );
+  }
+  return rawConfig as RawConfig;
+}
+
+/**
+ * Load the config file (./config.json by default) and apply the command line overrides on top of it. Commands that do
+ * not match transactions (e.g. undo) can skip requiring a start date.
+ */
+export async function loadConfig(
+  configPath: string | null,
+  overrides: RawConfig,
+  isStartDateRequired: boolean = true,
+): Promise<Config> {
+  const fileConfig = await readConfigFile(configPath);
+  const rawConfig: RawConfig = { ...DEFAULT_CONFIG, ...fileConfig };
+  for (const [key, value] of Object.entries(overrides) as [keyof RawConfig, unknown][]) {
+    if (value === undefined) {
+      continue;
+    }
+    if (key === 'excludedOrders' && Array.isArray(rawConfig.excludedOrders) && Array.isArray(value)) {
+      // Excluded orders from the command line add to the ones in the config file
+      rawConfig.excludedOrders = [...rawConfig.excludedOrders, ...value];
+    } else {
+      rawConfig[key] = value;
+    }
+  }
+
+  if (rawConfig.since === undefined && !isStartDateRequired) {
+    rawConfig.since = '1970-01-01';
+  }
+  if (rawConfig.since === undefined) {
+    throw new ConfigError('No start date configured. Set "since" in the config file or pass --since YYYY-MM-DD.');
+  }
+  const startDate = toDate('since', rawConfig.since);
+  const endDate = rawConfig.until === undefined ? null : toDate('until', rawConfig.until);
+  if (endDate && endDate.getTime() < startDate.getTime()) {
+    throw new ConfigError(`Invalid until: ${rawConfig.until} is before since ${rawConfig.since}.`);
+  }
+
+  return {
+    startDate,
+    endDate,
+    windowMs: toPositiveNumber('windowDays', rawConfig.windowDays) * DAY_MS,
+    excludedOrders: toStringList('excludedOrders', rawConfig.excludedOrders),
+    descriptionKeywords: toStringList('descriptionKeywords', rawConfig.descriptionKeywords).map((keyword) =>
+      keyword.toLowerCase(),
+    ),
+    descriptionAntiKeywords: toStringList('descriptionAntiKeywords', rawConfig.descriptionAntiKeywords).map((keyword) =>
+      keyword.toLowerCase(),
+    ),
+    descriptionPrefix: toString('descriptionPrefix', rawConfig.descriptionPrefix),
+    giftCardDescription: toString('giftCardDescription', rawConfig.giftCardDescription),
+    backend: toString('backend', rawConfig.backend),
+    mintApiUrl: toString('mintApiUrl', rawConfig.mintApiUrl),
+    monarchApiUrl: toString('monarchApiUrl', rawConfig.monarchApiUrl),
+    ynabApiUrl: toString('ynabApiUrl', rawConfig.ynabApiUrl),
+    ynabBudgetId: toString('ynabBudgetId', rawConfig.ynabBudgetId),
+    ynabAccountIds: toStringList('ynabAccountIds', rawConfig.ynabAccountIds),
+    statementFiles: toStringList('statementFiles', rawConfig.statementFiles),
+    statementOutput: toString('statementOutput', rawConfig.statementOutput),
+    subsetMaxItems: toPositiveInteger('subsetMaxItems', rawConfig.subsetMaxItems),
+    subsetMaxSize: toPositiveInteger('subsetMaxSize', rawConfig.subsetMaxSize),
+    subsetTimeLimitMs: toPositiveNumber('subsetTimeLimitMs', rawConfig.subsetTimeLimitMs),
+    subsetMaxGroups: toPositiveInteger('subsetMaxGroups', rawConfig.subsetMaxGroups),
+    matching: toOneOf('matching', rawConfig.matching, MATCHING_MODES),
+    shipmentWindowBeforeMs:
+      toNonNegativeNumber('shipmentWindowBeforeDays', rawConfig.shipmentWindowBeforeDays) * DAY_MS,
+    shipmentWindowAfterMs: toNonNegativeNumber('shipmentWindowAfterDays', rawConfig.shipmentWindowAfterDays) * DAY_MS,
+    allocation: toOneOf('allocation', rawConfig.allocation, ALLOCATION_MODES),
+    orderSources: toListOf('orderSources', rawConfig.orderSources, ORDER_SOURCES),
+    lenient: toBoolean('lenient', rawConfig.lenient),
+    returnFeeMaxAmount: toNonNegativeNumber('returnFeeMaxAmount', rawConfig.returnFeeMaxAmount),
+    returnFeeMaxPercent: toPercentage('returnFeeMaxPercent', rawConfig.returnFeeMaxPercent),
+    categoryRules: toCategoryRules('categoryRules', rawConfig.categoryRules),
+    descriptionTemplate: toDescriptionTemplate('descriptionTemplate', rawConfig.descriptionTemplate),
+    descriptionMaxLength: toPositiveInteger('descriptionMaxLength', rawConfig.descriptionMaxLength),
+    mintRequestsPerSecond: toPositiveNumber('mintRequestsPerSecond', rawConfig.mintRequestsPerSecond),
+    browserPath: rawConfig.browserPath === undefined ? null : toString('browserPath', rawConfig.browserPath),
+    mintCredentialsFile:
+      rawConfig.mintCredentialsFile === undefined
+        ? null
+        : toString('mintCredentialsFile', rawConfig.mintCredentialsFile),
+    mintCredentialsMaxAgeMs:
+      toPositiveNumber('mintCredentialsMaxAgeHours', rawConfig.mintCredentialsMaxAgeHours) * HOUR_MS,
+  };
+}
+
+/**
+ * Get the date that Amazon orders and returns should be loaded from so that orders placed shortly before the start
+ * date can still be matched to transactions after it
+ */
+export function getBufferedStartDate(config: Config): Date {
+  return new Date(config.startDate.getTime() - config.windowMs);
+}
+
+/**
+ * Whether the date falls within the configured start and end dates (inclusive of the whole end day)
+ */
+export function isInDateRange(config: Config, date: Date, startDate: Date = config.startDate): boolean {
+  if (date.getTime() < startDate.getTime()) {
+    return false;
+  }
+  return !config.endDate || date.getTime() < config.endDate.getTime() + DAY_MS;
+}
@@ -0,0 +1,214 @@
+import { readFile, writeFile } from 'fs/promises';
+import { GiftCardActivity, Order, Shipment } from './AmazonClient';
+import { getTotalAmount } from './utils';
+
+const LEDGER_FILE = './gift-card-ledger.json';
+
+/**
+ * Gift card balance assumed to have been spent on an order the gift card activity has no redemption for
+ */
+export interface GiftCardLedgerAllocation {
+  account: string;
+  orderId: string;
+  orderDate: string;
+  amount: number;
+}
+
+interface RawGiftCardActivity {
+  account: string;
+  date: string;
+  amount: number;
+  orderId: string | null;
+  description: string;
+}
+
+interface RawGiftCardLedger {
+  activity: RawGiftCardActivity[];
+  allocations: GiftCardLedgerAllocation[];
+}
+
+/**
+ * How the gift card balance was spent on and refunded to the orders. Amounts are positive dollars of balance.
+ */
+export interface GiftCardAllocation {
+  /**
+   * Balance spent on each shipment, by <order id>/<tracking id>
+   */
+  shipments: Map<string, number>;
+  /**
+   * Balance credited back by each order's refunds, by order id
+   */
+  refunds: Map<string, number>;
+  /**
+   * Accounts with gift card activity. The balance of other accounts is unknown.
+   */
+  trackedAccounts: Set<string>;
+}
+
+function getShipmentKey(orderId: string, { trackingId }: Shipment): string {
+  return `${orderId}/${trackingId}`;
+}
+
+/**
+ * Get the gift card balance spent on the shipments of the order
+ */
+export function getShipmentsGiftCardAmount(
+  allocation: GiftCardAllocation,
+  orderId: string,
+  shipments: Shipment[],
+): number {
+  return roundCents(
+    shipments.reduce(
+      (total, shipment) => total + (allocation.shipments.get(getShipmentKey(orderId, shipment)) ?? 0),
+      0,
+    ),
+  );
+}
+
+function getActivityKey({ account, date, amount, orderId, description }: RawGiftCardActivity): string {
+  return [account, date, amount.toFixed(2), orderId, description].join('/');
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function compareOrders(a: { orderDate: string; orderId: string }, b: { orderDate: string; orderId: string }): number {
+  return a.orderDate.localeCompare(b.orderDate) || a.orderId.localeCompare(b.orderId);
+}
+
+/**
+ * Local record of each account's gift card activity and of the balance allocated to orders, so the balance carries
+ * across runs with exports of different date ranges and orders keep the allocation they were first given
+ */
+export default class GiftCardLedger {
+  private ledger: RawGiftCardLedger | null = null;
+
+  private async getLedger(): Promise<RawGiftCardLedger> {
+    if (!this.ledger) {
+      try {
+        this.ledger = JSON.parse((await readFile(LEDGER_FILE)).toString()) as RawGiftCardLedger;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new Error(`Unable to read gift card ledger ${LEDGER_FILE}: ${(e as Error).message}`);
+        }
+        this.ledger = { activity: [], allocations: [] };
+      }
+    }
+    return this.ledger;
+  }
+
+  async save() {
+    await writeFile(LEDGER_FILE, JSON.stringify(await this.getLedger(), null, 2));
+  }
+
+  /**
+   * Add the activity that is not already in the ledger. Identical activity (such as two reloads of the same amount on a
+   * day) is only added when the new activity has more of it than the ledger.
+   */
+  async addActivity(activity: GiftCardActivity[]) {
+    const ledger = await this.getLedger();
+    const counts = new Map<string, number>();
+    for (const entry of ledger.activity) {
+      const key = getActivityKey(entry);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    for (const entry of activity) {
+      const rawEntry: RawGiftCardActivity = { ...entry, date: entry.date.toISOString() };
+      const key = getActivityKey(rawEntry);
+      const count = counts.get(key) ?? 0;
+      if (count > 0) {
+        counts.set(key, count - 1);
+      } else {
+        ledger.activity.push(rawEntry);
+      }
+    }
+    ledger.activity.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Get each tracked account's current balance
+   */
+  async getBalances(): Promise<Map<string, number>> {
+    const { activity, allocations } = await this.getLedger();
+    const balances = new Map<string, number>();
+    for (const { account, amount } of activity) {
+      balances.set(account, roundCents((balances.get(account) ?? 0) + amount));
+    }
+    for (const { account, amount } of allocations) {
+      if (balances.has(account)) {
+        balances.set(account, roundCents(balances.get(account)! - amount));
+      }
+    }
+    return balances;
+  }
+
+  /**
+   * Allocate the gift card balance to the orders of the tracked accounts, oldest order (then lowest order id) first. An
+   * order's redemptions are used when the activity has them. Otherwise an order paid with a gift card keeps the amount
+   * it was allocated before, or is given as much of the balance at its order date as it costs. Each order's amount is
+   * spent on its shipments in the order they shipped.
+   */
+  async allocate(orders: Order[]): Promise<GiftCardAllocation> {
+    const ledger = await this.getLedger();
+    const allocation: GiftCardAllocation = {
+      shipments: new Map(),
+      refunds: new Map(),
+      trackedAccounts: new Set(ledger.activity.map(({ account }) => account)),
+    };
+    for (const account of allocation.trackedAccounts) {
+      const activity = ledger.activity.filter((entry) => entry.account === account);
+      const redemptions = new Map<string, number>();
+      for (const { orderId, amount } of activity) {
+        if (orderId !== null) {
+          // Spending is negative and refunds back to the balance are positive
+          const amounts = amount < 0 ? redemptions : allocation.refunds;
+          amounts.set(orderId, roundCents((amounts.get(orderId) ?? 0) + Math.abs(amount)));
+        }
+      }
+
+      const accountOrders = orders
+        .filter((order) => order.account === account)
+        .map((order) => ({ order, orderDate: order.orderDate.toISOString(), orderId: order.orderId }))
+        .sort(compareOrders);
+      for (const { order, orderDate, orderId } of accountOrders) {
+        const storedAllocation = ledger.allocations.find(
+          (entry) => entry.account === account && entry.orderId === orderId,
+        );
+        let amount = redemptions.get(orderId) ?? storedAllocation?.amount ?? 0;
+        if (redemptions.has(orderId)) {
+          ledger.allocations = ledger.allocations.filter((entry) => entry !== storedAllocation);
+        } else if (!storedAllocation && order.usedGiftCard) {
+          const activityBalance = getTotalAmount(activity.filter(({ date }) => date.localeCompare(orderDate) <= 0));
+          const allocatedBalance = getTotalAmount(
+            ledger.allocations.filter(
+              (entry) => entry.account === account && compareOrders(entry, { orderDate, orderId }) < 0,
+            ),
+          );
+          amount = roundCents(
+            Math.max(0, Math.min(activityBalance - allocatedBalance, -getTotalAmount(order.shipments))),
+          );
+          if (amount > 0) {
+            ledger.allocations.push({ account, orderId, orderDate, amount });
+          }
+        }
+        if (amount <= 0) {
+          continue;
+        }
+        let remainingAmount = amount;
+        // Shipments that have not shipped are charged last
+        const shipments = [...order.shipments].sort(
+          (a, b) => (a.shipmentDate?.getTime() ?? Number.MAX_VALUE) - (b.shipmentDate?.getTime() ?? Number.MAX_VALUE),
+        );
+        for (const shipment of shipments) {
+          const shipmentAmount = roundCents(Math.min(remainingAmount, -shipment.amount));
+          if (shipmentAmount > 0) {
+            allocation.shipments.set(getShipmentKey(orderId, shipment), shipmentAmount);
+            remainingAmount = roundCents(remainingAmount - shipmentAmount);
+          }
+        }
+      }
+    }
+    return allocation;
+  }
+}
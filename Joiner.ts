@@ -1,30 +1,58 @@
-import { Transaction } from './MintClient';
-import { Order, Return, Shipment } from './AmazonClient';
+import { Transaction } from './Backend';
+import { Order, REFUND_DESCRIPTION, RETURN_FEE_DESCRIPTION, Return, Shipment } from './AmazonClient';
 import cloneDeep from 'lodash/cloneDeep';
-import { amountsMatch, combinations, getTotalAmount } from './utils';
+import { amountsMatch, getTotalAmount } from './utils';
+import { findSubsetWithSum, getSubsetsLargestFirst, toCents } from './subsetSum';
+import { AssignmentCandidate, solveAssignment } from './assignment';
+import { Config } from './Config';
+import Categorizer from './Categorizer';
+import { DescriptionContext, formatDescription, isSameDescription } from './descriptions';
+import { GiftCardAllocation, getShipmentsGiftCardAmount } from './GiftCardLedger';
 
-const WINDOW_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
-const DESCRIPTION_PREFIX = 'Amazon - ';
-const GIFT_CARD_DESCRIPTION = 'Gift Card';
+const BALANCE_ADJUST_DESCRIPTION = 'Balance Adjust';
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-interface JoinedRecordItem {
+// Costs of global matching, in days of distance between the order (or shipment) and the charge
+const AMOUNT_RESIDUAL_COST_PER_DOLLAR = 1;
+const GIFT_CARD_COST = 7;
+
+export interface JoinedRecordItem {
   trackingId: string;
   description: string;
   amount: number;
+  /**
+   * Category to file the item under, or undefined when it could not be categorized
+   */
+  category?: string;
 }
 
 export interface JoinedRecord {
   mintTransactionId: string;
   orderId: string;
+  /**
+   * Name of the Amazon account the order was placed from
+   */
+  account: string;
   orderDate: Date;
   amount: number;
   items: JoinedRecordItem[];
   isUnmodified: boolean;
+  amazonReturn: Return | null;
 }
 
-export interface GiftCard {
-  orderId: string;
-  amount: number;
+/**
+ * Orders and transactions that could be matched in several equally good ways, so were left unmatched
+ */
+export interface AmbiguousMatch {
+  orderIds: string[];
+  transactionIds: string[];
+}
+
+interface MatchCandidate extends AssignmentCandidate {
+  amazonOrder: Order;
+  shipments: Shipment[];
+  transactions: Transaction[];
+  isGiftCard: boolean;
 }
 
 function getTimeDelta(a: Date, b: Date): number {
@@ -39,8 +67,47 @@ function removeItem<T>(array: T[], item: T) {
   array.splice(index, 1);
 }
 
-function inRange(candidate: Date, start: Date, durationMs: number = WINDOW_MS): boolean {
-  return candidate.getTime() >= start.getTime() && candidate.getTime() <= start.getTime() + durationMs;
+/**
+ * Get the time range the shipments may be charged in: around each shipment's ship date, or the order's window for
+ * shipments that have not shipped
+ */
+function getChargeWindow(amazonOrder: Order, shipments: Shipment[], config: Config): { start: number; end: number } {
+  const windows = shipments.map(({ shipmentDate }) =>
+    shipmentDate
+      ? {
+          start: shipmentDate.getTime() - config.shipmentWindowBeforeMs,
+          end: shipmentDate.getTime() + config.shipmentWindowAfterMs,
+        }
+      : { start: amazonOrder.orderDate.getTime(), end: amazonOrder.orderDate.getTime() + config.windowMs },
+  );
+  return { start: Math.min(...windows.map(({ start }) => start)), end: Math.max(...windows.map(({ end }) => end)) };
+}
+
+/**
+ * Time between the charge and the closest shipment date (the order date for shipments that have not shipped)
+ */
+function getChargeDelta(transaction: Transaction, amazonOrder: Order, shipments: Shipment[]): number {
+  return Math.min(
+    ...shipments.map(({ shipmentDate }) => getTimeDelta(transaction.date, shipmentDate ?? amazonOrder.orderDate)),
+  );
+}
+
+/**
+ * Get the mint charges in the shipments' charge window, closest to the shipment dates first
+ */
+function getWindowTransactions(
+  amazonOrder: Order,
+  shipments: Shipment[],
+  mintTransactions: Transaction[],
+  config: Config,
+): Transaction[] {
+  const { start, end } = getChargeWindow(amazonOrder, shipments, config);
+  return mintTransactions
+    .filter((mintTransactions) => mintTransactions.amount < 0)
+    .filter((mintTransaction) => mintTransaction.date.getTime() >= start && mintTransaction.date.getTime() <= end)
+    .map((mintTransaction) => ({ mintTransaction, delta: getChargeDelta(mintTransaction, amazonOrder, shipments) }))
+    .sort((a, b) => a.delta - b.delta)
+    .map(({ mintTransaction }) => mintTransaction);
 }
 
 /**
@@ -50,93 +117,173 @@ function getExactMatches(
   shipments: Shipment[],
   amount: number,
   amazonOrder: Order,
-  amazonReturns: Return[],
+  giftCardAllocation: GiftCardAllocation | null,
   mintTransactions: Transaction[],
+  config: Config,
+  truncatedSearches: string[],
 ): Transaction[] {
-  const mintTransaction = mintTransactions
-    .filter((mintTransactions) => mintTransactions.amount < 0)
-    .filter((mintTransaction) => inRange(mintTransaction.date, amazonOrder.orderDate))
-    .filter((mintTransaction) => amountsMatch(mintTransaction.amount, amount))
-    .sort((a, b) => getTimeDelta(a.date, amazonOrder.orderDate) - getTimeDelta(b.date, amazonOrder.orderDate))[0];
+  const mintTransaction = getWindowTransactions(amazonOrder, shipments, mintTransactions, config).find(
+    (mintTransaction) => amountsMatch(mintTransaction.amount, amount),
+  );
   return mintTransaction ? [mintTransaction] : [];
 }
 
 /**
- * Get combination of mint transactions that match the group of shipments
+ * Get combination of mint transactions that match the group of shipments. A search that stops at its limits is added
+ * to truncatedSearches.
  */
 function getCombinationMatches(
   shipments: Shipment[],
   amount: number,
   amazonOrder: Order,
-  amazonReturns: Return[],
+  giftCardAllocation: GiftCardAllocation | null,
   mintTransactions: Transaction[],
+  config: Config,
+  truncatedSearches: string[],
 ): Transaction[] {
-  const transactionCombinations = combinations(
-    mintTransactions
-      .filter((mintTransactions) => mintTransactions.amount < 0)
-      .filter((mintTransaction) => inRange(mintTransaction.date, amazonOrder.orderDate))
-      .sort((a, b) => getTimeDelta(a.date, amazonOrder.orderDate) - getTimeDelta(b.date, amazonOrder.orderDate)),
-  ).filter((combination) => combination.length >= 2);
-  for (const transactionCombination of transactionCombinations) {
-    const combinationAmount = getTotalAmount(transactionCombination);
-    if (amountsMatch(combinationAmount, amount)) {
-      return transactionCombination;
+  const candidates = getWindowTransactions(amazonOrder, shipments, mintTransactions, config);
+  // Candidates are sorted by date, so the earliest subset is the one closest to the shipment dates
+  const { subset, isTruncated } = findSubsetWithSum(candidates, amount, config, { minSize: 2, prefer: 'earliest' });
+  if (isTruncated) {
+    truncatedSearches.push(`Charges adding up to ${amount.toFixed(2)} for order ${amazonOrder.orderId}`);
+  }
+  return subset ?? [];
+}
+
+/**
+ * Get the mint transaction paying for the part of the shipments the gift card balance did not. When the account's gift
+ * card activity is known, that is the transaction for exactly the rest of the amount. Otherwise, when the order used a
+ * gift card, it is the transaction with the amount less than but closest to the shipments amount.
+ */
+function getGiftCardTransaction(
+  shipments: Shipment[],
+  amount: number,
+  amazonOrder: Order,
+  giftCardAllocation: GiftCardAllocation | null,
+  mintTransactions: Transaction[],
+  config: Config,
+): Transaction | undefined {
+  const windowTransactions = getWindowTransactions(amazonOrder, shipments, mintTransactions, config);
+  if (giftCardAllocation?.trackedAccounts.has(amazonOrder.account)) {
+    const giftCardAmount = getShipmentsGiftCardAmount(giftCardAllocation, amazonOrder.orderId, shipments);
+    if (giftCardAmount === 0) {
+      return undefined;
     }
+    return windowTransactions.find((mintTransaction) => amountsMatch(mintTransaction.amount, amount + giftCardAmount));
+  }
+  if (!amazonOrder.usedGiftCard) {
+    return undefined;
   }
-  return [];
+  return (
+    windowTransactions
+      .filter((mintTransaction) => mintTransaction.amount > amount)
+      // Pick the transaction with the least difference to the amount
+      .sort((a, b) => Math.abs(a.amount - amount) - Math.abs(b.amount - amount))[0]
+  );
 }
 
 /**
- * Get mint transaction with the amount less than but closest to the shipments amount
+ * Get the mint transaction paying for the part of the shipments the gift card balance did not
  */
 function getGiftCardMatches(
   shipments: Shipment[],
   amount: number,
   amazonOrder: Order,
-  amazonReturns: Return[],
+  giftCardAllocation: GiftCardAllocation | null,
   mintTransactions: Transaction[],
+  config: Config,
+  truncatedSearches: string[],
 ): Transaction[] {
-  if (!amazonOrder.usedGiftCard) {
-    return [];
+  const mintTransaction = getGiftCardTransaction(
+    shipments,
+    amount,
+    amazonOrder,
+    giftCardAllocation,
+    mintTransactions,
+    config,
+  );
+  return mintTransaction ? [mintTransaction] : [];
+}
+
+/**
+ * Cost of matching the shipments to the transactions in global matching mode: the days between each charge and the
+ * order and its closest shipment, plus the amount left for a gift card (or balance adjustment) to make up. Each extra
+ * transaction costs more than the dates of any single charge can, so exact matches win over groups of charges.
+ */
+function getMatchCost(
+  amazonOrder: Order,
+  shipments: Shipment[],
+  transactions: Transaction[],
+  amount: number,
+  config: Config,
+): number {
+  const dateCost = transactions.reduce((cost, transaction) => {
+    const orderDays = getTimeDelta(transaction.date, amazonOrder.orderDate) / DAY_MS;
+    const shipmentDays = getChargeDelta(transaction, amazonOrder, shipments) / DAY_MS;
+    return cost + orderDays + shipmentDays;
+  }, 0);
+  const residual = Math.abs(getTotalAmount(transactions) - amount);
+  const extraTransactionCost = (2 * config.windowMs) / DAY_MS;
+  return dateCost + (transactions.length - 1) * extraTransactionCost + residual * AMOUNT_RESIDUAL_COST_PER_DOLLAR;
+}
+
+export type SyntheticItemType = 'balance-adjust' | 'gift-card' | 'refund' | 'return-fee';
+
+/**
+ * Get the kind of made up item, if the item was added to balance the transaction rather than coming from an Amazon
+ * order (including refunds that could not be itemized and return fees)
+ */
+export function getSyntheticItemType(item: JoinedRecordItem, config: Config): SyntheticItemType | null {
+  if (item.description === config.descriptionPrefix + BALANCE_ADJUST_DESCRIPTION) {
+    return 'balance-adjust';
   }
-  const mintTransaction = mintTransactions
-    .filter((mintTransactions) => mintTransactions.amount < 0)
-    .filter((mintTransaction) => inRange(mintTransaction.date, amazonOrder.orderDate))
-    .filter((mintTransaction) => mintTransaction.amount > amount)
-    // Pick the transaction with the least difference to the amount
-    .sort((a, b) => Math.abs(a.amount - amount) - Math.abs(b.amount - amount))[0];
-  if (!mintTransaction) {
-    return [];
+  if (item.description === config.descriptionPrefix + config.giftCardDescription) {
+    return 'gift-card';
   }
-
-  // Add a gift card "item" so the transaction balances
-  const giftCardAmount = amount - mintTransaction.amount;
-  const matchingReturn = amazonReturns.find((returnRecord) => amountsMatch(returnRecord.amount, -giftCardAmount));
-  if (matchingReturn) {
-    shipments[0].items.push(
-      ...matchingReturn.items.map((item) => ({
-        description: item.description,
-        amount: -item.amount,
-      })),
-    );
-    removeItem(amazonReturns, matchingReturn);
-  } else {
-    shipments[0].items.push({
-      description: GIFT_CARD_DESCRIPTION,
-      amount: Number((-giftCardAmount).toFixed(2)),
-    });
+  if (item.description === config.descriptionPrefix + REFUND_DESCRIPTION) {
+    return 'refund';
+  }
+  if (item.description === config.descriptionPrefix + RETURN_FEE_DESCRIPTION) {
+    return 'return-fee';
   }
+  return null;
+}
+
+/**
+ * Whether the item was made up to balance the transaction rather than coming from an Amazon order
+ */
+export function isSyntheticItem(item: JoinedRecordItem, config: Config): boolean {
+  return getSyntheticItemType(item, config) !== null;
+}
 
-  return [mintTransaction];
+/**
+ * Get the part of the refund that goes back to the gift card balance rather than to the charged card: what the
+ * account's gift card activity shows was credited back for the order, or otherwise up to the gift card amount of the
+ * order's matched shipments. What the order's earlier refunds gave back to the balance is not given back again.
+ */
+function getRefundGiftCardAmount(
+  amazonReturn: Return,
+  giftCardAllocation: GiftCardAllocation | null,
+  giftCardAmounts: Map<string, number>,
+  refundedGiftCardAmounts: Map<string, number>,
+): number {
+  const giftCardAmount = giftCardAllocation?.trackedAccounts.has(amazonReturn.account)
+    ? giftCardAllocation.refunds.get(amazonReturn.orderId) ?? 0
+    : giftCardAmounts.get(amazonReturn.orderId) ?? 0;
+  const remainingAmount = giftCardAmount - (refundedGiftCardAmounts.get(amazonReturn.orderId) ?? 0);
+  return Number(Math.max(0, Math.min(amazonReturn.amount, remainingAmount)).toFixed(2));
 }
 
-function transactionMatches(joinedRecord: JoinedRecord, mintTransaction: Transaction) {
+function transactionMatches(joinedRecord: JoinedRecord, mintTransaction: Transaction, config: Config) {
   if (mintTransaction.children.length !== joinedRecord.items.length) {
     return false;
   }
   for (const item of joinedRecord.items) {
     const match = mintTransaction.children.find(
-      (child) => amountsMatch(child.amount, item.amount) && child.description.trim() === item.description.trim(),
+      (child) =>
+        amountsMatch(child.amount, item.amount) &&
+        isSameDescription(child.description, item.description, config) &&
+        (item.category === undefined || child.category === item.category),
     );
     if (!match) {
       return false;
@@ -146,134 +293,152 @@ function transactionMatches(joinedRecord: JoinedRecord, mintTransaction: Transac
 }
 
 export default class Joiner {
-  static joinOrders(
+  private rejectedKeys: Set<string>;
+
+  /**
+   * @param categorizer Assigns the joined items' categories, or null to leave them uncategorized
+   * @param rejectedPairs Transaction and order pairs rejected in an earlier review, which are never matched
+   */
+  constructor(
+    private config: Config,
+    private categorizer: Categorizer | null = null,
+    rejectedPairs: { mintTransactionId: string; orderId: string }[] = [],
+  ) {
+    this.rejectedKeys = new Set(
+      rejectedPairs.map(({ mintTransactionId, orderId }) => `${mintTransactionId}/${orderId}`),
+    );
+  }
+
+  /**
+   * Get the transactions the order may be matched to, leaving out those rejected for it
+   */
+  private getOrderTransactions(mintTransactions: Transaction[], orderId: string): Transaction[] {
+    return mintTransactions.filter(({ id }) => !this.rejectedKeys.has(`${id}/${orderId}`));
+  }
+
+  /**
+   * Give the items, which are described by their Amazon titles, their split descriptions. Identical items of the same
+   * shipment are merged into one line. Made up items are only prefixed, so they can still be recognized.
+   */
+  private describeItems(items: JoinedRecordItem[], context: DescriptionContext): JoinedRecordItem[] {
+    const lines: { item: JoinedRecordItem; quantity: number; isSynthetic: boolean }[] = [];
+    for (const item of items) {
+      const prefixedItem = { ...item, description: this.config.descriptionPrefix + item.description };
+      const isSynthetic = isSyntheticItem(prefixedItem, this.config);
+      const line = isSynthetic
+        ? undefined
+        : lines.find(
+            (other) =>
+              !other.isSynthetic &&
+              other.item.trackingId === item.trackingId &&
+              other.item.description === item.description &&
+              amountsMatch(other.item.amount / other.quantity, item.amount),
+          );
+      if (line) {
+        line.item.amount += item.amount;
+        line.quantity++;
+      } else {
+        lines.push({ item: isSynthetic ? prefixedItem : { ...item }, quantity: 1, isSynthetic });
+      }
+    }
+    return lines.map(({ item, quantity, isSynthetic }) => ({
+      ...item,
+      description: isSynthetic ? item.description : formatDescription(item.description, quantity, context, this.config),
+    }));
+  }
+
+  private categorize(items: JoinedRecordItem[]) {
+    for (const item of items) {
+      const category = this.categorizer?.getCategory(item.description);
+      if (category) {
+        item.category = category;
+      }
+    }
+  }
+
+  /**
+   * @param giftCardAllocation How the gift card balance was spent, or null to guess from the orders' payment methods
+   */
+  joinOrders(
     mintTransactions: Transaction[],
     amazonOrders: Order[],
     amazonReturns: Return[],
+    giftCardAllocation: GiftCardAllocation | null = null,
   ): {
     joinedRecords: JoinedRecord[];
     remainingMintTransactions: Transaction[];
     remainingAmazonOrders: Order[];
     remainingAmazonReturns: Return[];
+    ambiguousMatches: AmbiguousMatch[];
+    /**
+     * Searches that stopped at their limits, so may have missed a match
+     */
+    truncatedSearches: string[];
   } {
     mintTransactions = cloneDeep(mintTransactions);
     amazonOrders = cloneDeep(amazonOrders);
     // Sort orders by amount from largest to smallest (important for gift card matching)
     amazonOrders = amazonOrders.sort((a, b) => getTotalAmount(b.shipments) - getTotalAmount(a.shipments));
     const joinedRecords: JoinedRecord[] = [];
-    const giftCards: GiftCard[] = [];
-    for (const matcher of [getExactMatches, getCombinationMatches, getGiftCardMatches]) {
-      for (let i = 0; i < amazonOrders.length; i++) {
-        const amazonOrder = amazonOrders[i];
-        let dirty = true;
-        while (dirty) {
-          dirty = false;
-          const shipmentCombinations = combinations(amazonOrder.shipments).reverse();
-          for (const shipments of shipmentCombinations) {
-            const amount = getTotalAmount(shipments);
-            const matches = matcher(shipments, amount, amazonOrder, amazonReturns, mintTransactions);
-            if (matches.length > 0) {
-              const items: JoinedRecordItem[] = shipments.flatMap((shipment) =>
-                shipment.items.map((item) => ({
-                  trackingId: shipment.trackingId,
-                  description: DESCRIPTION_PREFIX + item.description,
-                  amount: item.amount,
-                })),
-              );
-              for (const match of matches) {
-                let matchItems: JoinedRecordItem[] = [];
-
-                // Try to find an exact set of items matching the transaction
-                for (const itemCombination of combinations(items)) {
-                  const amount = getTotalAmount(itemCombination);
-                  if (amountsMatch(amount, match.amount)) {
-                    matchItems = itemCombination;
-                    for (const item of matchItems) {
-                      removeItem(items, item);
-                    }
-                  }
-                }
-
-                // Otherwise just split them across the transactions
-                if (matchItems.length === 0) {
-                  let remainingAmount = match.amount;
-                  while (items.length > 0 && remainingAmount < 0 /* negative means a balance is remaining */) {
-                    const item = items[0];
-                    matchItems.push(item);
-                    remainingAmount -= item.amount;
-                    removeItem(items, item);
-                  }
-                  if (!amountsMatch(remainingAmount, 0)) {
-                    matchItems.push({
-                      trackingId: 'none',
-                      description: DESCRIPTION_PREFIX + 'Balance Adjust',
-                      amount: remainingAmount,
-                    });
-                  }
-                }
-
-                for (const item of matchItems) {
-                  if (item.description === DESCRIPTION_PREFIX + GIFT_CARD_DESCRIPTION) {
-                    giftCards.push({ orderId: amazonOrder.orderId, amount: item.amount });
-                  }
-                }
-
-                const joinedRecord: JoinedRecord = {
-                  mintTransactionId: match.id,
-                  orderId: amazonOrder.orderId,
-                  orderDate: amazonOrder.orderDate,
-                  amount: match.amount,
-                  items: matchItems,
-                  isUnmodified: false,
-                };
-                joinedRecord.isUnmodified = transactionMatches(joinedRecord, match);
-                joinedRecords.push(joinedRecord);
-                removeItem(mintTransactions, match);
-              }
-              for (const shipment of shipments) {
-                removeItem(amazonOrder.shipments, shipment);
-              }
-              if (amazonOrder.shipments.length === 0) {
-                removeItem(amazonOrders, amazonOrder);
-                i--;
-              }
-              dirty = true;
-              break;
-            }
-          }
-        }
-      }
+    // Gift card balance spent on each order's matched shipments, by order id
+    const giftCardAmounts = new Map<string, number>();
+    const truncatedSearches: string[] = [];
+    let ambiguousMatches: AmbiguousMatch[] = [];
+    if (this.config.matching === 'global') {
+      ambiguousMatches = this.joinOrdersGlobally(
+        mintTransactions,
+        amazonOrders,
+        joinedRecords,
+        giftCardAllocation,
+        giftCardAmounts,
+        truncatedSearches,
+      );
+    } else {
+      this.joinOrdersGreedily(
+        mintTransactions,
+        amazonOrders,
+        joinedRecords,
+        giftCardAllocation,
+        giftCardAmounts,
+        truncatedSearches,
+      );
     }
 
     amazonReturns = cloneDeep(amazonReturns);
+    const refundedGiftCardAmounts = new Map<string, number>();
     for (let i = 0; i < amazonReturns.length; i++) {
       const amazonReturn = amazonReturns[i];
-      for (const transaction of mintTransactions) {
-        const giftCard = giftCards.find((giftCard) =>
-          amountsMatch(transaction.amount, amazonReturn.amount - giftCard.amount),
-        );
-        if (giftCard || amountsMatch(transaction.amount, amazonReturn.amount)) {
+      const giftCardAmount = getRefundGiftCardAmount(
+        amazonReturn,
+        giftCardAllocation,
+        giftCardAmounts,
+        refundedGiftCardAmounts,
+      );
+      for (const transaction of this.getOrderTransactions(mintTransactions, amazonReturn.orderId)) {
+        const isGiftCard = giftCardAmount > 0 && amountsMatch(transaction.amount, amazonReturn.amount - giftCardAmount);
+        if (isGiftCard || amountsMatch(transaction.amount, amazonReturn.amount)) {
+          const items: JoinedRecordItem[] = amazonReturn.items.map((item) => ({
+            trackingId: 'none',
+            description: item.description,
+            amount: -item.amount,
+          }));
+          if (isGiftCard) {
+            items.push({ trackingId: 'none', description: this.config.giftCardDescription, amount: -giftCardAmount });
+            const refundedGiftCardAmount = refundedGiftCardAmounts.get(amazonReturn.orderId) ?? 0;
+            refundedGiftCardAmounts.set(amazonReturn.orderId, refundedGiftCardAmount + giftCardAmount);
+          }
           const joinedRecord: JoinedRecord = {
             mintTransactionId: transaction.id,
             orderId: amazonReturn.orderId,
+            account: amazonReturn.account,
             orderDate: amazonReturn.returnDate,
             amount: transaction.amount,
-            items: amazonReturn.items.map((item) => ({
-              trackingId: 'none',
-              description: DESCRIPTION_PREFIX + item.description,
-              amount: -item.amount,
-            })),
+            items: this.describeItems(items, amazonReturn),
             isUnmodified: false,
+            amazonReturn,
           };
-          if (giftCard) {
-            joinedRecord.items.push({
-              trackingId: 'none',
-              description: DESCRIPTION_PREFIX + GIFT_CARD_DESCRIPTION,
-              amount: -giftCard.amount,
-            });
-            // removeItem(giftCards, giftCard); This probably should be used but there is an instance where it is better to keep it
-          }
-          joinedRecord.isUnmodified = transactionMatches(joinedRecord, transaction);
+          this.categorize(joinedRecord.items);
+          joinedRecord.isUnmodified = transactionMatches(joinedRecord, transaction, this.config);
           joinedRecords.push(joinedRecord);
           removeItem(mintTransactions, transaction);
           removeItem(amazonReturns, amazonReturn);
@@ -288,6 +453,265 @@ export default class Joiner {
       remainingMintTransactions: mintTransactions,
       remainingAmazonOrders: amazonOrders,
       remainingAmazonReturns: amazonReturns,
+      ambiguousMatches,
+      truncatedSearches,
     };
   }
+
+  /**
+   * Run each matcher over the orders in turn, taking the first match for each group of shipments
+   */
+  private joinOrdersGreedily(
+    mintTransactions: Transaction[],
+    amazonOrders: Order[],
+    joinedRecords: JoinedRecord[],
+    giftCardAllocation: GiftCardAllocation | null,
+    giftCardAmounts: Map<string, number>,
+    truncatedSearches: string[],
+  ) {
+    for (const matcher of [getExactMatches, getCombinationMatches, getGiftCardMatches]) {
+      for (let i = 0; i < amazonOrders.length; i++) {
+        const amazonOrder = amazonOrders[i];
+        let dirty = true;
+        while (dirty) {
+          dirty = false;
+          // The groups are generated up front so the time limit only applies to generating them, not to the matchers
+          for (const shipments of this.getShipmentGroups(amazonOrder, truncatedSearches)) {
+            const amount = getTotalAmount(shipments);
+            const matches = matcher(
+              shipments,
+              amount,
+              amazonOrder,
+              giftCardAllocation,
+              this.getOrderTransactions(mintTransactions, amazonOrder.orderId),
+              this.config,
+              truncatedSearches,
+            );
+            if (matches.length > 0) {
+              this.linkShipments(
+                amazonOrder,
+                shipments,
+                matches,
+                mintTransactions,
+                joinedRecords,
+                giftCardAmounts,
+                truncatedSearches,
+              );
+              if (amazonOrder.shipments.length === 0) {
+                removeItem(amazonOrders, amazonOrder);
+                i--;
+              }
+              dirty = true;
+              break;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Consider every candidate match of shipment groups to transactions at once and choose the set that links the most
+   * money at the lowest cost. Matches that tie with another choice are reported rather than guessed.
+   */
+  private joinOrdersGlobally(
+    mintTransactions: Transaction[],
+    amazonOrders: Order[],
+    joinedRecords: JoinedRecord[],
+    giftCardAllocation: GiftCardAllocation | null,
+    giftCardAmounts: Map<string, number>,
+    truncatedSearches: string[],
+  ): AmbiguousMatch[] {
+    const { chosen, ambiguous, isTruncated } = solveAssignment(
+      this.getMatchCandidates(mintTransactions, amazonOrders, giftCardAllocation, truncatedSearches),
+      this.config.subsetTimeLimitMs,
+    );
+    if (isTruncated) {
+      truncatedSearches.push('Global assignment of orders to transactions (the best assignment found was used)');
+    }
+    for (const { amazonOrder, shipments, transactions } of chosen) {
+      this.linkShipments(
+        amazonOrder,
+        shipments,
+        transactions,
+        mintTransactions,
+        joinedRecords,
+        giftCardAmounts,
+        truncatedSearches,
+      );
+    }
+    for (const amazonOrder of [...amazonOrders]) {
+      if (amazonOrder.shipments.length === 0) {
+        removeItem(amazonOrders, amazonOrder);
+      }
+    }
+    return ambiguous.map((candidates) => ({
+      orderIds: [...new Set(candidates.map(({ amazonOrder }) => amazonOrder.orderId))],
+      transactionIds: [...new Set(candidates.flatMap(({ transactions }) => transactions.map(({ id }) => id)))],
+    }));
+  }
+
+  /**
+   * Every way a group of shipments could be matched: to each transaction of the same amount, to the closest group of
+   * transactions adding up to the amount, and (when a gift card paid for part of the order) to the transaction for the
+   * rest. Groups of transactions are only searched for single shipments and whole orders, since each search is
+   * expensive.
+   */
+  private getMatchCandidates(
+    mintTransactions: Transaction[],
+    amazonOrders: Order[],
+    giftCardAllocation: GiftCardAllocation | null,
+    truncatedSearches: string[],
+  ): MatchCandidate[] {
+    const candidates: MatchCandidate[] = [];
+    amazonOrders.forEach((amazonOrder, orderIndex) => {
+      const orderTransactions = this.getOrderTransactions(mintTransactions, amazonOrder.orderId);
+      for (const shipments of this.getShipmentGroups(amazonOrder, truncatedSearches)) {
+        const amount = getTotalAmount(shipments);
+        const cents = -toCents(amount);
+        if (cents <= 0) {
+          continue;
+        }
+        const addCandidate = (transactions: Transaction[], isGiftCard: boolean) =>
+          candidates.push({
+            amazonOrder,
+            shipments,
+            transactions,
+            isGiftCard,
+            resources: [
+              ...shipments.map((shipment) => `shipment:${orderIndex}:${amazonOrder.shipments.indexOf(shipment)}`),
+              ...transactions.map(({ id }) => `transaction:${id}`),
+            ],
+            // Gift card matches only count once no other match can use their transactions
+            value: isGiftCard ? [0, cents] : [cents, 0],
+            cost:
+              getMatchCost(amazonOrder, shipments, transactions, amount, this.config) +
+              (isGiftCard ? GIFT_CARD_COST : 0),
+            key: `${amazonOrder.orderId}:${transactions.map(({ id }) => id).sort()}`,
+          });
+
+        for (const mintTransaction of getWindowTransactions(amazonOrder, shipments, orderTransactions, this.config)) {
+          if (amountsMatch(mintTransaction.amount, amount)) {
+            addCandidate([mintTransaction], false);
+          }
+        }
+        if (shipments.length === 1 || shipments.length === amazonOrder.shipments.length) {
+          const combination = getCombinationMatches(
+            shipments,
+            amount,
+            amazonOrder,
+            giftCardAllocation,
+            orderTransactions,
+            this.config,
+            truncatedSearches,
+          );
+          if (combination.length > 0) {
+            addCandidate(combination, false);
+          }
+        }
+        const giftCardTransaction = getGiftCardTransaction(
+          shipments,
+          amount,
+          amazonOrder,
+          giftCardAllocation,
+          orderTransactions,
+          this.config,
+        );
+        if (giftCardTransaction) {
+          addCandidate([giftCardTransaction], true);
+        }
+      }
+    });
+    return candidates;
+  }
+
+  /**
+   * Get the groups of the order's shipments to try matching, largest first
+   */
+  private getShipmentGroups(amazonOrder: Order, truncatedSearches: string[]): Shipment[][] {
+    const { subsets, isTruncated } = getSubsetsLargestFirst(amazonOrder.shipments, this.config);
+    if (isTruncated) {
+      truncatedSearches.push(`Shipment groups of order ${amazonOrder.orderId}`);
+    }
+    return subsets;
+  }
+
+  /**
+   * Create a joined record for each of the transactions the shipments matched, splitting the shipments' items between
+   * them, and remove the matched shipments and transactions. When the transactions are for less than the shipments, the
+   * gift card balance paid the rest, which is added as a gift card item.
+   */
+  private linkShipments(
+    amazonOrder: Order,
+    shipments: Shipment[],
+    matches: Transaction[],
+    mintTransactions: Transaction[],
+    joinedRecords: JoinedRecord[],
+    giftCardAmounts: Map<string, number>,
+    truncatedSearches: string[],
+  ) {
+    const items: JoinedRecordItem[] = shipments.flatMap((shipment) =>
+      shipment.items.map((item) => ({
+        trackingId: shipment.trackingId,
+        description: item.description,
+        amount: item.amount,
+      })),
+    );
+    const giftCardAmount = Number((getTotalAmount(matches) - getTotalAmount(shipments)).toFixed(2));
+    if (giftCardAmount > 0) {
+      items.push({
+        trackingId: shipments[0].trackingId,
+        description: this.config.giftCardDescription,
+        amount: giftCardAmount,
+      });
+      giftCardAmounts.set(amazonOrder.orderId, (giftCardAmounts.get(amazonOrder.orderId) ?? 0) + giftCardAmount);
+    }
+    for (const match of matches) {
+      // Try to find an exact set of items matching the transaction
+      const { subset, isTruncated } = findSubsetWithSum(items, match.amount, this.config, { prefer: 'largest' });
+      if (isTruncated) {
+        truncatedSearches.push(`Items of order ${amazonOrder.orderId} charged in transaction ${match.id}`);
+      }
+      const matchItems = subset ?? [];
+      for (const item of matchItems) {
+        removeItem(items, item);
+      }
+
+      // Otherwise just split them across the transactions
+      if (matchItems.length === 0) {
+        let remainingAmount = match.amount;
+        while (items.length > 0 && remainingAmount < 0 /* negative means a balance is remaining */) {
+          const item = items[0];
+          matchItems.push(item);
+          remainingAmount -= item.amount;
+          removeItem(items, item);
+        }
+        if (!amountsMatch(remainingAmount, 0)) {
+          matchItems.push({
+            trackingId: 'none',
+            description: BALANCE_ADJUST_DESCRIPTION,
+            amount: remainingAmount,
+          });
+        }
+      }
+
+      const joinedRecord: JoinedRecord = {
+        mintTransactionId: match.id,
+        orderId: amazonOrder.orderId,
+        account: amazonOrder.account,
+        orderDate: amazonOrder.orderDate,
+        amount: match.amount,
+        items: this.describeItems(matchItems, amazonOrder),
+        isUnmodified: false,
+        amazonReturn: null,
+      };
+      this.categorize(joinedRecord.items);
+      joinedRecord.isUnmodified = transactionMatches(joinedRecord, match, this.config);
+      joinedRecords.push(joinedRecord);
+      removeItem(mintTransactions, match);
+    }
+    for (const shipment of shipments) {
+      removeItem(amazonOrder.shipments, shipment);
+    }
+  }
 }
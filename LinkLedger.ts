@@ -0,0 +1,156 @@
+import { readFile, writeFile } from 'fs/promises';
+import { Transaction } from './Backend';
+import { Order, Return } from './AmazonClient';
+import { JoinedRecord, JoinedRecordItem } from './Joiner';
+
+const LEDGER_FILE = './ledger.json';
+
+export interface LedgerShipment {
+  orderId: string;
+  trackingId: string;
+}
+
+export interface LedgerReturn {
+  orderId: string;
+  returnDate: string;
+  amount: number;
+}
+
+export interface LedgerEntry {
+  /**
+   * Name of the backend the transaction is from, as transaction ids of different backends are unrelated
+   */
+  backend: string;
+  mintTransactionId: string;
+  orderIds: string[];
+  shipments: LedgerShipment[];
+  returns: LedgerReturn[];
+  items: JoinedRecordItem[];
+  linkedAt: string;
+}
+
+interface RawLedger {
+  entries: (Omit<LedgerEntry, 'backend'> & { backend?: string })[];
+}
+
+function getShipmentKey({ orderId, trackingId }: LedgerShipment): string {
+  return `${orderId}/${trackingId}`;
+}
+
+function getReturnKey({ orderId, returnDate, amount }: LedgerReturn): string {
+  return `${orderId}/${returnDate}/${amount.toFixed(2)}`;
+}
+
+function toLedgerReturn(returnRecord: Return): LedgerReturn {
+  return {
+    orderId: returnRecord.orderId,
+    returnDate: returnRecord.returnDate.toISOString(),
+    amount: returnRecord.amount,
+  };
+}
+
+/**
+ * Local record of which Mint transactions have already been linked to which Amazon orders, so that re-runs do not
+ * re-pair them with different orders. Links are kept per backend, and only those of the given backend are used.
+ */
+export default class LinkLedger {
+  private entries: LedgerEntry[] | null = null;
+
+  constructor(private backend: string) {}
+
+  private async getEntries(): Promise<LedgerEntry[]> {
+    if (!this.entries) {
+      try {
+        const rawLedger: RawLedger = JSON.parse((await readFile(LEDGER_FILE)).toString());
+        // Links recorded before backends were configurable are all from Mint
+        this.entries = rawLedger.entries.map(({ backend, ...entry }) => ({ backend: backend ?? 'mint', ...entry }));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new Error(`Unable to read link ledger ${LEDGER_FILE}: ${(e as Error).message}`);
+        }
+        this.entries = [];
+      }
+    }
+    return this.entries;
+  }
+
+  private async getBackendEntries(): Promise<LedgerEntry[]> {
+    return (await this.getEntries()).filter(({ backend }) => backend === this.backend);
+  }
+
+  private async save() {
+    const rawLedger: RawLedger = { entries: await this.getEntries() };
+    await writeFile(LEDGER_FILE, JSON.stringify(rawLedger, null, 2));
+  }
+
+  /**
+   * Remove the transactions, shipments and returns that are already linked from the candidate pools
+   */
+  async removeLinked(
+    transactions: Transaction[],
+    orders: Order[],
+    returns: Return[],
+  ): Promise<{ transactions: Transaction[]; orders: Order[]; returns: Return[]; linkedTransactions: Transaction[] }> {
+    const entries = await this.getBackendEntries();
+    const linkedTransactionIds = new Set(entries.map(({ mintTransactionId }) => mintTransactionId));
+    const linkedShipmentKeys = new Set(entries.flatMap(({ shipments }) => shipments.map(getShipmentKey)));
+    const linkedReturnKeys = new Set(entries.flatMap(({ returns }) => returns.map(getReturnKey)));
+
+    return {
+      transactions: transactions.filter(({ id }) => !linkedTransactionIds.has(id)),
+      orders: orders
+        .map((order) => ({
+          ...order,
+          shipments: order.shipments.filter(
+            ({ trackingId }) => !linkedShipmentKeys.has(getShipmentKey({ orderId: order.orderId, trackingId })),
+          ),
+        }))
+        .filter(({ shipments }) => shipments.length > 0),
+      returns: returns.filter((returnRecord) => !linkedReturnKeys.has(getReturnKey(toLedgerReturn(returnRecord)))),
+      linkedTransactions: transactions.filter(({ id }) => linkedTransactionIds.has(id)),
+    };
+  }
+
+  /**
+   * Record the joined records as linked. Any existing links for the same transactions, shipments or returns are
+   * replaced.
+   */
+  async recordLinks(joinedRecords: JoinedRecord[]) {
+    for (const joinedRecord of joinedRecords) {
+      const { mintTransactionId, orderId, items, amazonReturn } = joinedRecord;
+      const trackingIds = amazonReturn
+        ? []
+        : [...new Set(items.map(({ trackingId }) => trackingId).filter((trackingId) => trackingId !== 'none'))];
+      const entry: LedgerEntry = {
+        backend: this.backend,
+        mintTransactionId,
+        orderIds: [orderId],
+        shipments: trackingIds.map((trackingId) => ({ orderId, trackingId })),
+        returns: amazonReturn ? [toLedgerReturn(amazonReturn)] : [],
+        items,
+        linkedAt: new Date().toISOString(),
+      };
+      const shipmentKeys = new Set(entry.shipments.map(getShipmentKey));
+      const returnKeys = new Set(entry.returns.map(getReturnKey));
+      this.entries = (await this.getEntries()).filter(
+        (existingEntry) =>
+          existingEntry.backend !== this.backend ||
+          (existingEntry.mintTransactionId !== mintTransactionId &&
+            !existingEntry.shipments.some((shipment) => shipmentKeys.has(getShipmentKey(shipment))) &&
+            !existingEntry.returns.some((returnRecord) => returnKeys.has(getReturnKey(returnRecord)))),
+      );
+      this.entries.push(entry);
+    }
+    await this.save();
+  }
+
+  /**
+   * Forget the links for the transactions, e.g. after their updates have been undone
+   */
+  async removeLinks(transactionIds: string[]) {
+    this.entries = (await this.getEntries()).filter(
+      ({ backend, mintTransactionId }) => backend !== this.backend || !transactionIds.includes(mintTransactionId),
+    );
+    await this.save();
+  }
+}
@@ -1,14 +1,19 @@
-import axios, { AxiosError, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
 import { JoinedRecord } from './Joiner';
 import MintCredentialsProvider from './MintCredentialsProvider';
+import { Config, isInDateRange } from './Config';
+import { Backend, ChildTransaction, Transaction, isAmazonDescription } from './Backend';
+import { RateLimiter, getRetryDelay, isTransientError, sleep, toMintApiError } from './mintApi';
 
 interface RawTransactions {
+  metaData?: { totalSize: number };
   Transaction: Array<{
     id: string;
     parentId?: string;
     description: string;
     date: string;
     amount: number;
+    category?: { id: string; name: string };
     fiData?: {
       amount: number;
       description: string;
@@ -16,23 +21,24 @@ interface RawTransactions {
   }>;
 }
 
-export interface ChildTransaction {
-  description: string;
-  amount: number;
-}
-export interface Transaction {
-  id: string;
-  amount: number;
-  date: Date;
-  children: ChildTransaction[];
+interface RawCategories {
+  Category: Array<{ id: string; name: string }>;
 }
 
-const DESCRIPTION_KEYWORDS = ['amazon', 'amzn'];
-const DESCRIPTION_ANTI_KEYWORDS = ['web services', 'clinic'];
-const MINT_API_PATH = 'https://mint.intuit.com/pfm/v1';
+const PAGE_SIZE = 500;
+const MAX_RETRIES = 5;
+
+export default class MintClient implements Backend {
+  readonly displayName = 'Mint';
+  private categoryIds: Map<string, string> | null = null;
+  private rateLimiter: RateLimiter;
 
-export default class MintClient {
-  private credentialsProvider = new MintCredentialsProvider();
+  constructor(
+    private config: Config,
+    private credentialsProvider = new MintCredentialsProvider(config),
+  ) {
+    this.rateLimiter = new RateLimiter(config.mintRequestsPerSecond);
+  }
 
   private async getHeaders(): Promise<Record<string, string>> {
     const credentials = await this.credentialsProvider.getCredentials();
@@ -47,41 +53,66 @@ export default class MintClient {
   }
 
   async getTransactions(startDate: Date): Promise<Transaction[]> {
-    const response: AxiosResponse<RawTransactions> = await this.ensureAuthorized(async () =>
-      axios.get(`${MINT_API_PATH}/transactions`, {
-        params: {
-          limit: 100000,
-          fromDate: startDate.toISOString(),
+    const transactions = await this.fetchTransactions({ fromDate: startDate.toISOString() });
+    return transactions
+      .filter((transaction) => isInDateRange(this.config, transaction.date, startDate))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Read the transaction again from Mint, from the transactions on its date, or null if it is no longer there
+   */
+  async getCurrentTransaction(transaction: Transaction): Promise<Transaction | null> {
+    const nextDate = new Date(transaction.date.getTime() + 24 * 60 * 60 * 1000);
+    const transactions = await this.fetchTransactions({
+      fromDate: transaction.date.toISOString(),
+      toDate: nextDate.toISOString(),
+    });
+    return transactions.find(({ id }) => id === transaction.id) ?? null;
+  }
+
+  /**
+   * Fetch the Amazon transactions matching the query a page at a time, combining split children into their parent
+   */
+  private async fetchTransactions(params: Record<string, string>): Promise<Transaction[]> {
+    const rawTransactions: RawTransactions['Transaction'] = [];
+    const ids = new Set<string>();
+    let offset = 0;
+    let totalSize = Infinity;
+    while (offset < totalSize) {
+      const page = await this.request<RawTransactions>(
+        {
+          method: 'get',
+          url: `${this.config.mintApiUrl}/transactions`,
+          params: { ...params, limit: PAGE_SIZE, offset },
         },
-        headers: await this.getHeaders(),
-      }),
-    );
-    return response.data.Transaction.filter((transaction) => {
-      if (!transaction.fiData) {
-        return false;
-      }
-      const originalDescription = transaction.fiData.description.toLowerCase();
-      for (const keyword of DESCRIPTION_KEYWORDS) {
-        if (originalDescription.includes(keyword)) {
-          let matches = true;
-          for (const antiKeyword of DESCRIPTION_ANTI_KEYWORDS) {
-            if (originalDescription.includes(antiKeyword)) {
-              matches = false;
-              break;
-            }
-          }
-          if (matches) {
-            return true;
-          }
+        'Fetching Mint transactions',
+      );
+      offset += page.Transaction.length;
+      totalSize = page.metaData?.totalSize ?? Infinity;
+      // Skip transactions already on an earlier page, in case a new transaction shifted the pages
+      for (const transaction of page.Transaction) {
+        if (!ids.has(transaction.id)) {
+          ids.add(transaction.id);
+          rawTransactions.push(transaction);
         }
       }
-      return false;
-    })
-      .map(({ id, parentId, amount, description, date }) => ({
+      if (page.Transaction.length < PAGE_SIZE) {
+        break;
+      }
+    }
+    return rawTransactions
+      .filter((transaction) => {
+        if (!transaction.fiData) {
+          return false;
+        }
+        return isAmazonDescription(transaction.fiData.description, this.config);
+      })
+      .map(({ id, parentId, amount, description, date, category }) => ({
         id: parentId ?? id,
         amount,
         date: new Date(date),
-        children: [{ description, amount }],
+        children: [{ description, amount, category: category?.name }],
       }))
       .reduce<Transaction[]>((results, transaction) => {
         const existingTransaction = results.find((result) => result.id === transaction.id);
@@ -92,37 +123,70 @@ export default class MintClient {
           existingTransaction.children.push(...transaction.children);
         }
         return results;
-      }, [])
-      .sort((a, b) => a.date.getTime() - b.date.getTime());
+      }, []);
   }
 
   async updateTransaction(joinedRecord: JoinedRecord): Promise<void> {
+    await this.writeTransaction(joinedRecord.mintTransactionId, joinedRecord.amount, joinedRecord.items);
+  }
+
+  async restoreTransaction(transaction: Transaction): Promise<void> {
+    await this.writeTransaction(transaction.id, transaction.amount, transaction.children);
+  }
+
+  /**
+   * Get the id of the Mint category with the name
+   */
+  private async getCategoryId(name: string): Promise<string> {
+    if (!this.categoryIds) {
+      const { Category } = await this.request<RawCategories>(
+        { method: 'get', url: `${this.config.mintApiUrl}/categories` },
+        'Fetching Mint categories',
+      );
+      this.categoryIds = new Map(Category.map(({ id, name }) => [name.toLowerCase(), id]));
+    }
+    const id = this.categoryIds.get(name.toLowerCase());
+    if (!id) {
+      throw new Error(`Unknown Mint category "${name}". Check the categoryRules in the config file.`);
+    }
+    return id;
+  }
+
+  private async toCategory({ category }: ChildTransaction): Promise<{ category?: { id: string } }> {
+    return category ? { category: { id: await this.getCategoryId(category) } } : {};
+  }
+
+  private async writeTransaction(id: string, amount: number, children: ChildTransaction[]): Promise<void> {
     let data: {
       type: 'CashAndCreditTransaction';
       description?: string;
-      splitData: { children: { amount: number; description: string }[] };
+      category?: { id: string };
+      splitData: { children: { amount: number; description: string; category?: { id: string } }[] };
     };
-    if (joinedRecord.items.length === 1) {
+    if (children.length === 1) {
       data = {
-        description: joinedRecord.items[0].description,
+        description: children[0].description,
+        ...(await this.toCategory(children[0])),
         type: 'CashAndCreditTransaction',
         splitData: { children: [] },
       };
     } else {
+      const splitChildren = [];
+      for (const child of children) {
+        splitChildren.push({
+          amount: child.amount * (amount > 0 ? -1 : 1),
+          description: child.description,
+          ...(await this.toCategory(child)),
+        });
+      }
       data = {
         type: 'CashAndCreditTransaction',
-        splitData: {
-          children: joinedRecord.items.map((item) => ({
-            amount: item.amount * (joinedRecord.amount > 0 ? -1 : 1),
-            description: item.description,
-          })),
-        },
+        splitData: { children: splitChildren },
       };
     }
-    await this.ensureAuthorized(async () =>
-      axios.put(`${MINT_API_PATH}/transactions/${joinedRecord.mintTransactionId}`, data, {
-        headers: await this.getHeaders(),
-      }),
+    await this.request(
+      { method: 'put', url: `${this.config.mintApiUrl}/transactions/${id}`, data },
+      `Updating Mint transaction ${id}`,
     );
   }
 
@@ -130,20 +194,32 @@ export default class MintClient {
     await this.credentialsProvider.clearCredentials();
   }
 
-  async ensureAuthorized<T>(func: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
-    const credentials = await this.credentialsProvider.getCredentials();
-    if (!credentials) {
+  /**
+   * Send a request to the Mint API, logging in when there are no credentials or Mint rejects them. Network errors,
+   * rate limiting and server errors are retried with backoff, which is safe because updates replace the whole
+   * transaction. Requests that still fail throw a MintApiError for the status.
+   */
+  private async request<T>(requestConfig: AxiosRequestConfig, description: string): Promise<T> {
+    if (!(await this.credentialsProvider.getCredentials())) {
       await this.credentialsProvider.refreshCredentials();
-      return await func();
-    } else {
+    }
+    let isReauthorized = false;
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.wait();
       try {
-        return await func();
+        const response = await axios.request<T>({ ...requestConfig, headers: await this.getHeaders() });
+        return response.data;
       } catch (e) {
-        if (e instanceof AxiosError && e.response?.statusText === 'Unauthorized') {
+        if (e instanceof AxiosError && e.response?.status === 401 && !isReauthorized) {
+          isReauthorized = true;
           await this.credentialsProvider.refreshCredentials();
-          return await func();
+        } else if (isTransientError(e) && attempt < MAX_RETRIES) {
+          const delay = getRetryDelay(e, attempt);
+          const reason = e instanceof AxiosError ? e.response?.status ?? e.message : e;
+          console.log(`${description} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s`);
+          await sleep(delay);
         } else {
-          throw e;
+          throw toMintApiError(e, description);
         }
       }
     }
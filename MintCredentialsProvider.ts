@@ -1,51 +1,272 @@
-import { mkdir, rm, writeFile, readFile } from 'fs/promises';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { constants } from 'fs';
+import { access, chmod, mkdir, rm, writeFile, readFile } from 'fs/promises';
 import { join } from 'path';
+import { promisify } from 'util';
 import puppeteer from 'puppeteer-core';
+import { Config } from './Config';
+import { MintAuthError } from './mintApi';
 
 const CREDENTIALS_DIR = './credentials';
-const API_KEY_FILE = join(CREDENTIALS_DIR, 'apiKey.txt');
-const COOKIE_FILE = join(CREDENTIALS_DIR, 'cookie.txt');
+const CREDENTIALS_FILE = join(CREDENTIALS_DIR, 'mint.json');
+// Plain text credentials saved by earlier versions, moved to the encrypted file once a passphrase is set
+const LEGACY_FILES = [join(CREDENTIALS_DIR, 'apiKey.txt'), join(CREDENTIALS_DIR, 'cookie.txt')];
+const COOKIE_ENV_VARIABLE = 'MINT_COOKIE';
+const API_KEY_ENV_VARIABLE = 'MINT_API_KEY';
+const PASSPHRASE_ENV_VARIABLE = 'MINT_CREDENTIALS_PASSPHRASE';
+const CIPHER = 'aes-256-gcm';
+// Refresh credentials this long before they expire, so they do not expire in the middle of a run
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Where Chrome or Chromium is usually installed on each platform, in order of preference
+ */
+const BROWSER_PATHS: Partial<Record<NodeJS.Platform, string[]>> = {
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  ],
+  linux: [
+    '/usr/bin/google-chrome',
+    '/usr/bin/google-chrome-stable',
+    '/usr/bin/chromium',
+    '/usr/bin/chromium-browser',
+    '/snap/bin/chromium',
+  ],
+  win32: [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+  ],
+};
 
 interface Credentials {
   apiKey: string;
   cookie: string;
+  /**
+   * When the credentials expire, in milliseconds since the epoch, or null when unknown
+   */
+  expiresAt: number | null;
+}
+
+/**
+ * Credentials encrypted with a key derived from the passphrase, as saved in the credentials file. Values are base64.
+ */
+interface EncryptedCredentials {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return promisify(scrypt)(passphrase, salt, 32) as Promise<Buffer>;
+}
+
+async function encrypt(credentials: Credentials, passphrase: string): Promise<EncryptedCredentials> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, await deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials)), cipher.final()]);
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+async function decrypt(encrypted: EncryptedCredentials, passphrase: string): Promise<Credentials> {
+  const key = await deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64'));
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(encrypted.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString());
+  } catch (e) {
+    throw new Error(
+      `Unable to decrypt the Mint credentials in ${CREDENTIALS_FILE}. Check ${PASSPHRASE_ENV_VARIABLE}, or pass ` +
+        '--refresh-creds to log in again.',
+    );
+  }
+}
+
+function isExpired({ expiresAt }: Credentials): boolean {
+  return expiresAt !== null && Date.now() >= expiresAt - EXPIRY_MARGIN_MS;
+}
+
+async function isExecutable(path: string): Promise<boolean> {
+  try {
+    await access(path, constants.X_OK);
+    return true;
+  } catch (e) {
+    return false;
+  }
 }
 
+/**
+ * Provides the Mint API key and cookie. They are supplied through the MINT_COOKIE and MINT_API_KEY environment
+ * variables or the mintCredentialsFile, or else come from logging in to Mint in Chrome, in which case they are saved
+ * encrypted with MINT_CREDENTIALS_PASSPHRASE for later runs.
+ */
 export default class MintCredentialsProvider {
   private credentials: Credentials | null = null;
 
+  constructor(private config: Config) {}
+
   async clearCredentials() {
-    await rm(API_KEY_FILE, { recursive: true });
-    await rm(COOKIE_FILE, { recursive: true });
+    for (const file of [CREDENTIALS_FILE, ...LEGACY_FILES]) {
+      await rm(file, { force: true });
+    }
     this.credentials = null;
   }
 
+  /**
+   * Get the credentials, or null when they have to be refreshed because there are none or they are about to expire
+   */
   async getCredentials(): Promise<Credentials | null> {
     if (!this.credentials) {
-      try {
-        const apiKey = (await readFile(API_KEY_FILE)).toString();
-        const cookie = (await readFile(COOKIE_FILE)).toString();
-        this.credentials = { apiKey, cookie };
-      } catch (e) {
-        this.credentials = null;
-      }
+      this.credentials = (await this.getSuppliedCredentials())?.credentials ?? (await this.loadCredentials());
+    }
+    if (this.credentials && isExpired(this.credentials)) {
+      this.credentials = null;
     }
     return this.credentials;
   }
 
+  /**
+   * Get the credentials from the environment variables or the mintCredentialsFile, along with where they came from
+   */
+  private async getSuppliedCredentials(): Promise<{ credentials: Credentials; source: string } | null> {
+    const cookie = process.env[COOKIE_ENV_VARIABLE];
+    const apiKey = process.env[API_KEY_ENV_VARIABLE];
+    if (cookie && apiKey) {
+      return {
+        credentials: { apiKey, cookie, expiresAt: null },
+        source: `${COOKIE_ENV_VARIABLE} and ${API_KEY_ENV_VARIABLE}`,
+      };
+    }
+    const file = this.config.mintCredentialsFile;
+    if (file === null) {
+      return null;
+    }
+    let credentials: Partial<Record<keyof Credentials, unknown>>;
+    try {
+      credentials = JSON.parse((await readFile(file)).toString());
+    } catch (e) {
+      throw new Error(`Unable to read the Mint credentials file ${file}: ${(e as Error).message}`);
+    }
+    const { apiKey: fileApiKey, cookie: fileCookie, expiresAt } = credentials;
+    const expiryTime = typeof expiresAt === 'string' ? new Date(expiresAt).getTime() : NaN;
+    if (
+      typeof fileApiKey !== 'string' ||
+      typeof fileCookie !== 'string' ||
+      (expiresAt !== undefined && isNaN(expiryTime))
+    ) {
+      throw new Error(
+        `The Mint credentials file ${file} must contain an "apiKey", a "cookie" and optionally an "expiresAt" date.`,
+      );
+    }
+    return {
+      credentials: { apiKey: fileApiKey, cookie: fileCookie, expiresAt: expiresAt === undefined ? null : expiryTime },
+      source: file,
+    };
+  }
+
+  private async loadCredentials(): Promise<Credentials | null> {
+    let encrypted: EncryptedCredentials;
+    try {
+      encrypted = JSON.parse((await readFile(CREDENTIALS_FILE)).toString());
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(
+          `Unable to read the saved Mint credentials ${CREDENTIALS_FILE}: ${(e as Error).message}. Pass ` +
+            '--refresh-creds to log in again.',
+        );
+      }
+      return await this.loadLegacyCredentials();
+    }
+    const passphrase = process.env[PASSPHRASE_ENV_VARIABLE];
+    if (!passphrase) {
+      throw new Error(
+        `Set ${PASSPHRASE_ENV_VARIABLE} to read the saved Mint credentials, or pass --refresh-creds to log in again.`,
+      );
+    }
+    return await decrypt(encrypted, passphrase);
+  }
+
+  /**
+   * Load the plain text credentials saved by earlier versions. They are saved encrypted instead when there is a
+   * passphrase.
+   */
+  private async loadLegacyCredentials(): Promise<Credentials | null> {
+    let apiKey: string;
+    let cookie: string;
+    try {
+      [apiKey, cookie] = await Promise.all(LEGACY_FILES.map(async (file) => (await readFile(file)).toString()));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Unable to read the saved Mint credentials: ${(e as Error).message}`);
+      }
+      return null;
+    }
+    const credentials: Credentials = { apiKey, cookie, expiresAt: null };
+    if (process.env[PASSPHRASE_ENV_VARIABLE]) {
+      await this.saveCredentials(credentials);
+    } else {
+      console.log(`Set ${PASSPHRASE_ENV_VARIABLE} to encrypt the Mint credentials saved in ${CREDENTIALS_DIR}.`);
+    }
+    return credentials;
+  }
+
+  /**
+   * Save the credentials encrypted, readable only by the current user, replacing any plain text credentials. Without a
+   * passphrase they are only kept for this run.
+   */
   private async saveCredentials(credentials: Credentials) {
     this.credentials = credentials;
-    await mkdir(CREDENTIALS_DIR, { recursive: true });
-    await writeFile(API_KEY_FILE, credentials.apiKey);
-    await writeFile(COOKIE_FILE, credentials.cookie);
+    const passphrase = process.env[PASSPHRASE_ENV_VARIABLE];
+    if (!passphrase) {
+      console.log(`Set ${PASSPHRASE_ENV_VARIABLE} to save the Mint credentials for later runs.`);
+      return;
+    }
+    await mkdir(CREDENTIALS_DIR, { recursive: true, mode: 0o700 });
+    await chmod(CREDENTIALS_DIR, 0o700);
+    await writeFile(CREDENTIALS_FILE, JSON.stringify(await encrypt(credentials, passphrase)), { mode: 0o600 });
+    await chmod(CREDENTIALS_FILE, 0o600);
+    for (const file of LEGACY_FILES) {
+      await rm(file, { force: true });
+    }
+  }
+
+  private async getBrowserPath(): Promise<string> {
+    if (this.config.browserPath !== null) {
+      return this.config.browserPath;
+    }
+    for (const path of BROWSER_PATHS[process.platform] ?? []) {
+      if (await isExecutable(path)) {
+        return path;
+      }
+    }
+    throw new Error(
+      'Unable to find Chrome or Chromium to log in to Mint with. Set browserPath in the config file, or supply the ' +
+        `credentials with ${COOKIE_ENV_VARIABLE} and ${API_KEY_ENV_VARIABLE} or mintCredentialsFile.`,
+    );
   }
 
   async refreshCredentials() {
     this.credentials = null;
+    const supplied = await this.getSuppliedCredentials();
+    if (supplied) {
+      throw new MintAuthError(
+        `The Mint credentials from ${supplied.source} have expired or were rejected. Update them and run again.`,
+        null,
+      );
+    }
+    const executablePath = await this.getBrowserPath();
     console.log('Mint login required. Enter credentials in the browser...');
     const browser = await puppeteer.launch({
       headless: false,
-      executablePath: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+      executablePath,
     });
     const page = await browser.newPage();
     await page.setViewport({ width: 1080, height: 1024 });
@@ -66,8 +287,14 @@ export default class MintCredentialsProvider {
 
     await browser.close();
 
-    await this.saveCredentials({ apiKey, cookie });
+    // The login session ends when the first of its cookies expires. Those are the HTTP only ones, unlike tracking
+    // cookies set by scripts. Cookies without an expiry last for the session, which is capped at the maximum age.
+    const expiresAt = Math.min(
+      Date.now() + this.config.mintCredentialsMaxAgeMs,
+      ...cookies.filter(({ httpOnly, expires }) => httpOnly && expires > 0).map(({ expires }) => expires * 1000),
+    );
+    await this.saveCredentials({ apiKey, cookie, expiresAt });
 
-    console.log('Successfully retrieved Mint credentials.');
+    console.log(`Successfully retrieved Mint credentials, valid until ${new Date(expiresAt).toISOString()}.`);
   }
 }
@@ -0,0 +1,284 @@
+import axios, { AxiosError } from 'axios';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { JoinedRecord } from './Joiner';
+import { Config, isInDateRange } from './Config';
+import { Backend, ChildTransaction, Transaction, isAmazonDescription } from './Backend';
+
+const TOKEN_ENV_VARIABLE = 'MONARCH_TOKEN';
+const TOKEN_FILE = join('./credentials', 'monarchToken.txt');
+const PAGE_SIZE = 500;
+
+interface RawTransaction {
+  id: string;
+  amount: number;
+  date: string;
+  notes: string | null;
+  plaidName: string | null;
+  isSplitTransaction: boolean;
+  originalTransaction: { id: string } | null;
+  merchant: { id: string; name: string } | null;
+  category: { id: string; name: string } | null;
+}
+
+interface RawTransactionDetails {
+  id: string;
+  amount: number;
+  notes: string | null;
+  merchant: { id: string; name: string } | null;
+  category: { id: string } | null;
+  splitTransactions: { id: string; amount: number; notes: string | null }[];
+}
+
+interface RawMutationErrors {
+  message: string | null;
+  fieldErrors: { field: string; messages: string[] }[] | null;
+}
+
+/**
+ * Round the children's amounts to cents for a split of the parent amount, with the rounding remainder on the last split
+ */
+function toSplitAmounts(parentAmount: number, children: ChildTransaction[]): number[] {
+  const parentCents = Math.round(parentAmount * 100);
+  const cents = children.map((child) => Math.round(child.amount * 100));
+  const difference = parentCents - cents.reduce((total, amount) => total + amount, 0);
+  if (Math.abs(difference) > 1) {
+    throw new Error(
+      `Split amounts total ${((parentCents - difference) / 100).toFixed(2)} but the Monarch transaction is ` +
+        `${parentAmount.toFixed(2)}`,
+    );
+  }
+  cents[cents.length - 1] += difference;
+  return cents.map((amount) => amount / 100);
+}
+
+const TRANSACTIONS_QUERY = `
+  query GetTransactionsList($offset: Int, $limit: Int, $filters: TransactionFilterInput) {
+    allTransactions(filters: $filters) {
+      totalCount
+      results(offset: $offset, limit: $limit, orderBy: date) {
+        id
+        amount
+        date
+        notes
+        plaidName
+        isSplitTransaction
+        originalTransaction { id }
+        merchant { id name }
+        category { id name }
+      }
+    }
+  }
+`;
+
+const TRANSACTION_QUERY = `
+  query GetTransaction($id: UUID!) {
+    getTransaction(id: $id) {
+      id
+      amount
+      notes
+      merchant { id name }
+      category { id }
+      splitTransactions { id amount notes }
+    }
+  }
+`;
+
+const CATEGORIES_QUERY = `
+  query GetCategories {
+    categories { id name }
+  }
+`;
+
+const UPDATE_SPLITS_MUTATION = `
+  mutation UpdateTransactionSplit($input: UpdateTransactionSplitMutationInput!) {
+    updateTransactionSplit(input: $input) {
+      errors { message fieldErrors { field messages } }
+    }
+  }
+`;
+
+const UPDATE_TRANSACTION_MUTATION = `
+  mutation UpdateTransaction($input: UpdateTransactionMutationInput!) {
+    updateTransaction(input: $input) {
+      errors { message fieldErrors { field messages } }
+    }
+  }
+`;
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Backend for Monarch Money, using its GraphQL API with a session token copied from a logged in browser
+ */
+export default class MonarchClient implements Backend {
+  readonly displayName = 'Monarch';
+  private token: string | null = null;
+  private categoryIds: Map<string, string> | null = null;
+
+  constructor(private config: Config) {}
+
+  private async getToken(): Promise<string> {
+    if (!this.token) {
+      this.token = process.env[TOKEN_ENV_VARIABLE] ?? null;
+    }
+    if (!this.token) {
+      try {
+        this.token = (await readFile(TOKEN_FILE)).toString().trim();
+      } catch (e) {
+        throw new Error(
+          `No Monarch session token found. Set ${TOKEN_ENV_VARIABLE} or save the token to ${TOKEN_FILE}. The token ` +
+            'is the "Authorization: Token ..." header sent by the Monarch web app when logged in.',
+        );
+      }
+    }
+    return this.token;
+  }
+
+  private async request<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    let response;
+    try {
+      response = await axios.post<{ data?: T; errors?: { message: string }[] }>(
+        this.config.monarchApiUrl,
+        { query, variables },
+        {
+          headers: {
+            authorization: `Token ${await this.getToken()}`,
+            'content-type': 'application/json',
+            accept: 'application/json',
+          },
+        },
+      );
+    } catch (e) {
+      if (e instanceof AxiosError && e.response?.status === 401) {
+        throw new Error(`Monarch rejected the session token. Update ${TOKEN_ENV_VARIABLE} or ${TOKEN_FILE}.`);
+      }
+      throw e;
+    }
+    if (response.data.errors?.length || !response.data.data) {
+      const messages = (response.data.errors ?? []).map(({ message }) => message).join('; ');
+      throw new Error(`Monarch request failed: ${messages || 'no data returned'}`);
+    }
+    return response.data.data;
+  }
+
+  private async mutate(mutationName: string, query: string, input: Record<string, unknown>) {
+    const data = await this.request<Record<string, { errors: RawMutationErrors | null }>>(query, { input });
+    const errors = data[mutationName]?.errors;
+    if (errors && (errors.message || errors.fieldErrors?.length)) {
+      const fieldMessages = (errors.fieldErrors ?? []).map(({ field, messages }) => `${field}: ${messages.join(', ')}`);
+      throw new Error(
+        `Monarch ${mutationName} failed: ${[errors.message, ...fieldMessages].filter(Boolean).join('; ')}`,
+      );
+    }
+  }
+
+  async getTransactions(startDate: Date): Promise<Transaction[]> {
+    const rawTransactions: RawTransaction[] = [];
+    let totalCount = Infinity;
+    while (rawTransactions.length < totalCount) {
+      const { allTransactions } = await this.request<{
+        allTransactions: { totalCount: number; results: RawTransaction[] };
+      }>(TRANSACTIONS_QUERY, {
+        offset: rawTransactions.length,
+        limit: PAGE_SIZE,
+        filters: {
+          startDate: toDateString(startDate),
+          ...(this.config.endDate ? { endDate: toDateString(this.config.endDate) } : {}),
+        },
+      });
+      totalCount = allTransactions.totalCount;
+      rawTransactions.push(...allTransactions.results);
+      if (allTransactions.results.length === 0) {
+        break;
+      }
+    }
+
+    return rawTransactions
+      .filter(({ plaidName, merchant }) => isAmazonDescription(plaidName ?? merchant?.name ?? '', this.config))
+      .map(({ id, originalTransaction, isSplitTransaction, amount, notes, date, category }) => ({
+        id: isSplitTransaction && originalTransaction ? originalTransaction.id : id,
+        amount,
+        date: new Date(date),
+        children: [{ description: notes ?? '', amount, category: category?.name }],
+      }))
+      .reduce<Transaction[]>((results, transaction) => {
+        const existingTransaction = results.find((result) => result.id === transaction.id);
+        if (!existingTransaction) {
+          results.push(transaction);
+        } else {
+          existingTransaction.amount += transaction.amount;
+          existingTransaction.children.push(...transaction.children);
+        }
+        return results;
+      }, [])
+      .filter((transaction) => isInDateRange(this.config, transaction.date, startDate))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async updateTransaction(joinedRecord: JoinedRecord): Promise<void> {
+    await this.writeTransaction(joinedRecord.mintTransactionId, joinedRecord.items);
+  }
+
+  async restoreTransaction(transaction: Transaction): Promise<void> {
+    await this.writeTransaction(transaction.id, transaction.children);
+  }
+
+  /**
+   * Get the id of the Monarch category with the name
+   */
+  private async getCategoryId(name: string): Promise<string> {
+    if (!this.categoryIds) {
+      const { categories } = await this.request<{ categories: { id: string; name: string }[] }>(CATEGORIES_QUERY, {});
+      this.categoryIds = new Map(categories.map(({ id, name }) => [name.toLowerCase(), id]));
+    }
+    const id = this.categoryIds.get(name.toLowerCase());
+    if (!id) {
+      throw new Error(`Unknown Monarch category "${name}". Check the categoryRules in the config file.`);
+    }
+    return id;
+  }
+
+  /**
+   * Write a single child as the transaction's notes, or multiple children as splits with one note per item. Children
+   * without a category keep the transaction's category.
+   */
+  private async writeTransaction(id: string, children: ChildTransaction[]): Promise<void> {
+    const { getTransaction: transaction } = await this.request<{ getTransaction: RawTransactionDetails }>(
+      TRANSACTION_QUERY,
+      { id },
+    );
+    if (children.length === 1) {
+      if (transaction.splitTransactions.length > 0) {
+        await this.mutate('updateTransactionSplit', UPDATE_SPLITS_MUTATION, { transactionId: id, splitData: [] });
+      }
+      const { description, category } = children[0];
+      await this.mutate('updateTransaction', UPDATE_TRANSACTION_MUTATION, {
+        id,
+        notes: description,
+        ...(category ? { category: await this.getCategoryId(category) } : {}),
+      });
+    } else {
+      const amounts = toSplitAmounts(transaction.amount, children);
+      const splitData = [];
+      for (const [i, child] of children.entries()) {
+        splitData.push({
+          merchantName: transaction.merchant?.name ?? 'Amazon',
+          categoryId: child.category ? await this.getCategoryId(child.category) : transaction.category?.id,
+          amount: amounts[i],
+          notes: child.description,
+        });
+      }
+      await this.mutate('updateTransactionSplit', UPDATE_SPLITS_MUTATION, { transactionId: id, splitData });
+    }
+  }
+
+  /**
+   * Forget the token so that it is read again. The token file is the user's own and is kept.
+   */
+  async clearCredentials() {
+    this.token = null;
+  }
+}
@@ -0,0 +1,58 @@
+import { readFile, writeFile } from 'fs/promises';
+import { JoinedRecord } from './Joiner';
+
+const DECISIONS_FILE = './review-decisions.json';
+
+export interface RejectedPair {
+  /**
+   * Name of the backend the transaction is from
+   */
+  backend: string;
+  mintTransactionId: string;
+  orderId: string;
+  rejectedAt: string;
+}
+
+interface RawDecisions {
+  rejected: (Omit<RejectedPair, 'backend'> & { backend?: string })[];
+}
+
+/**
+ * Transaction and order pairs that were rejected during review, so that they are not proposed again for the same
+ * backend
+ */
+export default class ReviewDecisions {
+  private rejected: RejectedPair[] | null = null;
+
+  constructor(private backend: string) {}
+
+  private async getRejected(): Promise<RejectedPair[]> {
+    if (!this.rejected) {
+      try {
+        const rawDecisions: RawDecisions = JSON.parse((await readFile(DECISIONS_FILE)).toString());
+        // Decisions made before backends were configurable are all from Mint
+        this.rejected = rawDecisions.rejected.map(({ backend, ...pair }) => ({ backend: backend ?? 'mint', ...pair }));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new Error(`Unable to read review decisions ${DECISIONS_FILE}: ${(e as Error).message}`);
+        }
+        this.rejected = [];
+      }
+    }
+    return this.rejected;
+  }
+
+  /**
+   * Get the pairs rejected for the backend, to leave out of matching
+   */
+  async getRejectedPairs(): Promise<RejectedPair[]> {
+    return (await this.getRejected()).filter(({ backend }) => backend === this.backend);
+  }
+
+  async reject({ mintTransactionId, orderId }: JoinedRecord) {
+    const rejected = await this.getRejected();
+    rejected.push({ backend: this.backend, mintTransactionId, orderId, rejectedAt: new Date().toISOString() });
+    const rawDecisions: RawDecisions = { rejected };
+    await writeFile(DECISIONS_FILE, JSON.stringify(rawDecisions, null, 2));
+  }
+}
@@ -0,0 +1,136 @@
+import { createInterface } from 'readline';
+import { Transaction } from './Backend';
+import { Order } from './AmazonClient';
+import { JoinedRecord, isSyntheticItem } from './Joiner';
+import ReviewDecisions from './ReviewDecisions';
+import { Config } from './Config';
+import { formatNumber, logAmazonOrders, logAmazonReturns, logTransactions } from './logging';
+import { amountsMatch, getTotalAmount } from './utils';
+
+const ACTIONS_MESSAGE =
+  '[a]ccept, [s]kip (ask again next run), [r]eject (never propose again), [e]dit, [q]uit reviewing';
+
+/**
+ * Interactively walks through proposed joined records so each one can be accepted, skipped, rejected or edited
+ */
+export default class Reviewer {
+  private lines: AsyncIterator<string> | null = null;
+
+  constructor(
+    private config: Config,
+    private transactions: Transaction[],
+    private orders: Order[],
+    private decisions: ReviewDecisions,
+  ) {}
+
+  /**
+   * Review the joined records and get the approved (possibly edited) records
+   */
+  async review(joinedRecords: JoinedRecord[]): Promise<JoinedRecord[]> {
+    const approvedRecords: JoinedRecord[] = [];
+    const readline = createInterface({ input: process.stdin });
+    this.lines = readline[Symbol.asyncIterator]();
+    try {
+      for (let i = 0; i < joinedRecords.length; i++) {
+        let joinedRecord = joinedRecords[i];
+        this.logRecord(joinedRecord, i, joinedRecords.length);
+        let isDecided = false;
+        while (!isDecided) {
+          const action = (await this.ask(`${ACTIONS_MESSAGE}: `)).trim().toLowerCase();
+          if (action === 'a') {
+            if (!amountsMatch(getTotalAmount(joinedRecord.items), joinedRecord.amount)) {
+              console.log(
+                `The items total ${getTotalAmount(joinedRecord.items).toFixed(2)} but the transaction is ` +
+                  `${joinedRecord.amount.toFixed(2)}. Edit the items so they balance or skip the record.`,
+              );
+              continue;
+            }
+            approvedRecords.push(joinedRecord);
+            isDecided = true;
+          } else if (action === 's') {
+            isDecided = true;
+          } else if (action === 'r') {
+            await this.decisions.reject(joinedRecord);
+            isDecided = true;
+          } else if (action === 'e') {
+            joinedRecord = await this.editRecord(joinedRecord);
+            this.logRecord(joinedRecord, i, joinedRecords.length);
+          } else if (action === 'q') {
+            console.log(`Skipping the remaining ${joinedRecords.length - i} record(s)`);
+            return approvedRecords;
+          } else {
+            console.log(`Unknown action: ${action}`);
+          }
+        }
+      }
+    } finally {
+      readline.close();
+    }
+    return approvedRecords;
+  }
+
+  private async ask(question: string): Promise<string> {
+    process.stdout.write(question);
+    const { value, done } = await this.lines!.next();
+    if (done) {
+      throw new Error('Input ended before the review was finished');
+    }
+    return value;
+  }
+
+  private logRecord(joinedRecord: JoinedRecord, index: number, count: number) {
+    console.log();
+    console.log(`Record ${index + 1} of ${count}`);
+    console.log('==============');
+    console.log(`Mint Transaction ${joinedRecord.mintTransactionId}`);
+    logTransactions(this.transactions.filter(({ id }) => id === joinedRecord.mintTransactionId));
+
+    if (joinedRecord.amazonReturn) {
+      console.log(`Amazon Return for Order ${joinedRecord.orderId}`);
+      logAmazonReturns([joinedRecord.amazonReturn]);
+    } else {
+      const trackingIds = joinedRecord.items.map(({ trackingId }) => trackingId);
+      console.log(`Amazon Order ${joinedRecord.orderId}`);
+      logAmazonOrders(
+        this.orders
+          .filter(({ orderId }) => orderId === joinedRecord.orderId)
+          .map((order) => ({
+            ...order,
+            shipments: order.shipments.filter(({ trackingId }) => trackingIds.includes(trackingId)),
+          })),
+      );
+    }
+
+    console.log('Proposed Split');
+    joinedRecord.items.forEach((item, i) => {
+      const marker = isSyntheticItem(item, this.config) ? '[SYNTHETIC]' : '';
+      const category = item.category ? `[${item.category}]` : '[UNCATEGORIZED]';
+      console.log(`  ${i + 1}.`, formatNumber(item.amount), item.description, category, marker);
+    });
+  }
+
+  private async editRecord(joinedRecord: JoinedRecord): Promise<JoinedRecord> {
+    console.log('Press enter to keep the current value. Set an amount to 0 to remove the item.');
+    const items = [];
+    for (const item of joinedRecord.items) {
+      const description = (await this.ask(`Description [${item.description}]: `)).trim();
+      let amount: number | null = null;
+      while (amount === null) {
+        const rawAmount = (await this.ask(`Amount [${item.amount.toFixed(2)}]: `)).trim();
+        amount = rawAmount === '' ? item.amount : parseFloat(rawAmount);
+        if (isNaN(amount)) {
+          console.log(`Invalid amount: ${rawAmount}`);
+          amount = null;
+        }
+      }
+      const category = (await this.ask(`Category [${item.category ?? 'none'}]: `)).trim();
+      items.push({
+        ...item,
+        description: description || item.description,
+        amount,
+        category: category || item.category,
+      });
+    }
+    return { ...joinedRecord, items: items.filter(({ amount }) => !amountsMatch(amount, 0)) };
+  }
+}
@@ -0,0 +1,148 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Transaction } from './Backend';
+import { JoinedRecord, JoinedRecordItem } from './Joiner';
+
+const JOURNAL_DIR = './journal';
+
+export interface TransactionSnapshot {
+  id: string;
+  amount: number;
+  date: string;
+  children: { description: string; amount: number; category?: string }[];
+}
+
+export interface JournalEntry {
+  transactionId: string;
+  orderId: string;
+  before: TransactionSnapshot;
+  appliedItems: JoinedRecordItem[];
+  updatedAt: string;
+  undoneAt: string | null;
+}
+
+interface RawJournal {
+  runId: string;
+  backend: string;
+  entries: JournalEntry[];
+}
+
+function createRunId(): string {
+  // ISO timestamp without characters that are awkward in file names
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function getJournalFile(runId: string): string {
+  return join(JOURNAL_DIR, `${runId}.json`);
+}
+
+export function toTransaction(snapshot: TransactionSnapshot): Transaction {
+  return {
+    id: snapshot.id,
+    amount: snapshot.amount,
+    date: new Date(snapshot.date),
+    children: snapshot.children.map((child) => ({ ...child })),
+  };
+}
+
+/**
+ * Journal of the transactions updated during a run, with a snapshot of each transaction from before it was updated so
+ * that the run can be undone
+ */
+export default class RunJournal {
+  private entries: JournalEntry[] = [];
+
+  private constructor(
+    readonly runId: string,
+    readonly backend: string,
+  ) {}
+
+  static create(backend: string): RunJournal {
+    return new RunJournal(createRunId(), backend);
+  }
+
+  static async load(runId: string): Promise<RunJournal> {
+    let rawJournal: RawJournal;
+    try {
+      rawJournal = JSON.parse((await readFile(getJournalFile(runId))).toString());
+    } catch (e) {
+      throw new Error(`Unable to read journal for run ${runId}: ${(e as Error).message}`);
+    }
+    // Journals written before backends were configurable are all from Mint
+    const journal = new RunJournal(runId, rawJournal.backend ?? 'mint');
+    journal.entries = rawJournal.entries;
+    return journal;
+  }
+
+  /**
+   * Get the ids of all journaled runs, oldest first
+   */
+  static async getRunIds(): Promise<string[]> {
+    try {
+      const files = await readdir(JOURNAL_DIR);
+      return files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.substring(0, file.length - '.json'.length))
+        .sort();
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Find the run that most recently updated the transaction and has not already been undone
+   */
+  static async findLatestRunForTransaction(transactionId: string): Promise<RunJournal | null> {
+    for (const runId of (await RunJournal.getRunIds()).reverse()) {
+      const journal = await RunJournal.load(runId);
+      if (journal.getEntries(transactionId).length > 0) {
+        return journal;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the entries that have not been undone yet, optionally only those for a single transaction
+   */
+  getEntries(transactionId?: string): JournalEntry[] {
+    return this.entries.filter(
+      (entry) => entry.undoneAt === null && (transactionId === undefined || entry.transactionId === transactionId),
+    );
+  }
+
+  /**
+   * Record the state of the transaction before the joined record is applied to it. This must be called (and awaited)
+   * before the transaction is updated.
+   */
+  async recordSnapshot(transaction: Transaction, joinedRecord: JoinedRecord) {
+    this.entries.push({
+      transactionId: transaction.id,
+      orderId: joinedRecord.orderId,
+      before: {
+        id: transaction.id,
+        amount: transaction.amount,
+        date: transaction.date.toISOString(),
+        children: transaction.children.map(({ description, amount, category }) => ({ description, amount, category })),
+      },
+      appliedItems: joinedRecord.items,
+      updatedAt: new Date().toISOString(),
+      undoneAt: null,
+    });
+    await this.save();
+  }
+
+  async markUndone(entry: JournalEntry) {
+    entry.undoneAt = new Date().toISOString();
+    await this.save();
+  }
+
+  private async save() {
+    const rawJournal: RawJournal = { runId: this.runId, backend: this.backend, entries: this.entries };
+    await mkdir(JOURNAL_DIR, { recursive: true });
+    await writeFile(getJournalFile(this.runId), JSON.stringify(rawJournal, null, 2));
+  }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { basename } from 'path';
+import { createHash } from 'crypto';
+import { parse } from 'csv-parse';
+import { JoinedRecord } from './Joiner';
+import { Config, isInDateRange } from './Config';
+import { Backend, Transaction, isAmazonDescription } from './Backend';
+import { toCsvLine } from './utils';
+
+interface StatementTransaction {
+  id: string;
+  date: Date;
+  description: string;
+  amount: number;
+}
+
+/**
+ * Column layout of a card issuer's CSV export. Amounts are converted so purchases are negative.
+ */
+interface CsvLayout {
+  name: string;
+  headers: string[];
+  toTransaction(row: Record<string, string>): Omit<StatementTransaction, 'id'>;
+}
+
+const OUTPUT_HEADERS = [
+  'Transaction Id',
+  'Date',
+  'Statement Description',
+  'Transaction Amount',
+  'Order Id',
+  'Tracking Id',
+  'Item Description',
+  'Item Amount',
+  'Category',
+];
+
+function toNumber(value: string | undefined): number {
+  if (!value || value.trim() === '') {
+    return 0;
+  }
+  return parseFloat(value.replace(/[$,\s]/g, ''));
+}
+
+/**
+ * Parse MM/DD/YYYY or YYYY-MM-DD dates
+ */
+function toDate(value: string): Date {
+  const usDate = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (usDate) {
+    const [, month, day, year] = usDate;
+    return new Date(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`);
+  }
+  return new Date(value.trim().substring(0, 10));
+}
+
+const CSV_LAYOUTS: CsvLayout[] = [
+  {
+    name: 'Chase',
+    headers: ['Transaction Date', 'Post Date', 'Description', 'Amount'],
+    toTransaction: (row) => ({
+      date: toDate(row['Transaction Date']),
+      description: row['Description'],
+      amount: toNumber(row['Amount']),
+    }),
+  },
+  {
+    name: 'Capital One',
+    headers: ['Transaction Date', 'Posted Date', 'Description', 'Debit', 'Credit'],
+    toTransaction: (row) => ({
+      date: toDate(row['Transaction Date']),
+      description: row['Description'],
+      amount: toNumber(row['Credit']) - toNumber(row['Debit']),
+    }),
+  },
+  {
+    // Citi shows credits as negative numbers in the credit column
+    name: 'Citi',
+    headers: ['Status', 'Date', 'Description', 'Debit', 'Credit'],
+    toTransaction: (row) => ({
+      date: toDate(row['Date']),
+      description: row['Description'],
+      amount: -(toNumber(row['Debit']) + toNumber(row['Credit'])),
+    }),
+  },
+  {
+    // Amex shows purchases as positive amounts
+    name: 'Amex',
+    headers: ['Date', 'Description', 'Amount'],
+    toTransaction: (row) => ({
+      date: toDate(row['Date']),
+      description: row['Description'],
+      amount: -toNumber(row['Amount']),
+    }),
+  },
+];
+
+/**
+ * Create an id for a statement line that has no id of its own. It stays the same across runs as long as the line
+ * does, so the link ledger and review decisions keep working.
+ */
+function createId(file: string, { date, description, amount }: Omit<StatementTransaction, 'id'>, n: number): string {
+  const hash = createHash('sha1')
+    .update([basename(file), date.toISOString(), description, amount.toFixed(2), n].join('|'))
+    .digest('hex');
+  return hash.substring(0, 16);
+}
+
+async function parseCsv(file: string): Promise<StatementTransaction[]> {
+  const parser = fs.createReadStream(file).pipe(
+    parse({
+      delimiter: ',',
+      columns: (headers: string[]) => headers.map((header) => header.trim()),
+      relax_quotes: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+    }),
+  );
+  const transactions: StatementTransaction[] = [];
+  const occurrences = new Map<string, number>();
+  let layout: CsvLayout | undefined;
+  for await (const row of parser as AsyncIterable<Record<string, string>>) {
+    if (!layout) {
+      const headers = Object.keys(row);
+      layout = CSV_LAYOUTS.find((candidate) => candidate.headers.every((header) => headers.includes(header)));
+      if (!layout) {
+        throw new Error(`Unrecognized statement CSV layout in ${file}. Headers: ${headers.join(', ')}`);
+      }
+    }
+    const transaction = layout.toTransaction(row);
+    if (isNaN(transaction.date.getTime()) || isNaN(transaction.amount)) {
+      throw new Error(`Invalid ${layout.name} statement row in ${file}: ${JSON.stringify(row)}`);
+    }
+    // Identical lines (same day, description and amount) are told apart by their order in the file
+    const key = [transaction.date.toISOString(), transaction.description, transaction.amount].join('|');
+    const n = occurrences.get(key) ?? 0;
+    occurrences.set(key, n + 1);
+    transactions.push({ id: createId(file, transaction, n), ...transaction });
+  }
+  return transactions;
+}
+
+/**
+ * Parse OFX/QFX files, both the SGML (unclosed tags) and XML variants
+ */
+async function parseOfx(file: string): Promise<StatementTransaction[]> {
+  const contents = (await readFile(file)).toString();
+  const getTag = (block: string, tag: string): string | undefined =>
+    new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)?.[1].trim();
+  return contents
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((block) => {
+      const id = getTag(block, 'FITID');
+      const rawDate = getTag(block, 'DTPOSTED');
+      const amount = parseFloat(getTag(block, 'TRNAMT') ?? '');
+      const description = [getTag(block, 'NAME'), getTag(block, 'MEMO')].filter(Boolean).join(' ');
+      if (!id || !rawDate || isNaN(amount)) {
+        throw new Error(`Invalid OFX transaction in ${file}: ${block.substring(0, 200)}`);
+      }
+      const date = new Date(`${rawDate.substring(0, 4)}-${rawDate.substring(4, 6)}-${rawDate.substring(6, 8)}`);
+      return { id, date, description, amount };
+    });
+}
+
+/**
+ * Read the rows of an earlier output CSV, grouped by transaction id, or none when there is no output yet
+ */
+async function readOutput(file: string): Promise<Map<string, string[][]>> {
+  const rows = new Map<string, string[][]>();
+  if (!fs.existsSync(file)) {
+    return rows;
+  }
+  const parser = fs.createReadStream(file).pipe(parse({ delimiter: ',', from_line: 2, skip_empty_lines: true }));
+  for await (const row of parser as AsyncIterable<string[]>) {
+    rows.set(row[0], [...(rows.get(row[0]) ?? []), row]);
+  }
+  return rows;
+}
+
+/**
+ * Backend that reads transactions from downloaded card statements (OFX/QFX or card issuer CSV exports) and writes
+ * the proposed splits to a CSV file instead of updating a finance service
+ */
+export default class StatementClient implements Backend {
+  readonly displayName = 'Statement';
+  private transactions = new Map<string, StatementTransaction>();
+  /**
+   * Output rows by transaction id, read from the output CSV on the first write or restore of the run
+   */
+  private outputRows: Map<string, string[][]> | null = null;
+
+  constructor(private config: Config) {}
+
+  async getTransactions(startDate: Date): Promise<Transaction[]> {
+    if (this.config.statementFiles.length === 0) {
+      throw new Error('No statement files configured. Set statementFiles or pass --statement <file>.');
+    }
+    const statementTransactions: StatementTransaction[] = [];
+    for (const file of this.config.statementFiles) {
+      const isOfx = /\.(ofx|qfx)$/i.test(file);
+      statementTransactions.push(...(isOfx ? await parseOfx(file) : await parseCsv(file)));
+    }
+    for (const transaction of statementTransactions) {
+      this.transactions.set(transaction.id, transaction);
+    }
+    return statementTransactions
+      .filter(({ description }) => isAmazonDescription(description, this.config))
+      .filter(({ date }) => isInDateRange(this.config, date, startDate))
+      .map(({ id, date, description, amount }) => ({
+        id,
+        amount,
+        date,
+        children: [{ description, amount }],
+      }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Write one row per item of the joined record to the output CSV, replacing any rows an earlier run wrote for the
+   * transaction. Rows for other transactions are kept, as the link ledger stops earlier matches being written again.
+   */
+  async updateTransaction(joinedRecord: JoinedRecord): Promise<void> {
+    const transaction = this.transactions.get(joinedRecord.mintTransactionId);
+    const rows = joinedRecord.items.map((item) => [
+      joinedRecord.mintTransactionId,
+      transaction ? transaction.date.toISOString().substring(0, 10) : '',
+      transaction?.description ?? '',
+      joinedRecord.amount.toFixed(2),
+      joinedRecord.orderId,
+      item.trackingId,
+      item.description,
+      item.amount.toFixed(2),
+      item.category ?? '',
+    ]);
+    await this.writeOutput(joinedRecord.mintTransactionId, rows);
+  }
+
+  /**
+   * Remove the rows written for the transaction from the output CSV
+   */
+  async restoreTransaction(transaction: Transaction): Promise<void> {
+    await this.writeOutput(transaction.id, []);
+  }
+
+  private async writeOutput(transactionId: string, rows: string[][]) {
+    this.outputRows ??= await readOutput(this.config.statementOutput);
+    this.outputRows.delete(transactionId);
+    if (rows.length > 0) {
+      this.outputRows.set(transactionId, rows);
+    }
+    const lines = [OUTPUT_HEADERS, ...[...this.outputRows.values()].flat()].map((row) => toCsvLine(row) + '\n');
+    await writeFile(this.config.statementOutput, lines.join(''));
+  }
+
+  async clearCredentials() {
+    // Statement files need no credentials
+  }
+}
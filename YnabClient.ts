@@ -0,0 +1,237 @@
+import axios, { AxiosError } from 'axios';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { JoinedRecord } from './Joiner';
+import { Config, isInDateRange } from './Config';
+import { Backend, ChildTransaction, Transaction, isAmazonDescription } from './Backend';
+
+const TOKEN_ENV_VARIABLE = 'YNAB_TOKEN';
+const TOKEN_FILE = join('./credentials', 'ynabToken.txt');
+
+interface RawSubtransaction {
+  id: string;
+  amount: number;
+  memo: string | null;
+  category_name: string | null;
+  deleted: boolean;
+}
+
+interface RawTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  memo: string | null;
+  payee_name: string | null;
+  import_payee_name: string | null;
+  import_payee_name_original: string | null;
+  account_id: string;
+  category_name: string | null;
+  deleted: boolean;
+  subtransactions: RawSubtransaction[];
+}
+
+interface RawCategoryGroup {
+  categories: { id: string; name: string; deleted: boolean }[];
+}
+
+/**
+ * YNAB amounts are integer thousandths of the currency unit
+ */
+function toMilliunits(amount: number): number {
+  return Math.round(amount * 1000);
+}
+
+function fromMilliunits(milliunits: number): number {
+  return milliunits / 1000;
+}
+
+function toChildTransactions({ amount, memo, category_name, subtransactions }: RawTransaction): ChildTransaction[] {
+  const activeSubtransactions = subtransactions.filter(({ deleted }) => !deleted);
+  if (activeSubtransactions.length === 0) {
+    return [{ description: memo ?? '', amount: fromMilliunits(amount), category: category_name ?? undefined }];
+  }
+  return activeSubtransactions.map((subtransaction) => ({
+    description: subtransaction.memo ?? '',
+    amount: fromMilliunits(subtransaction.amount),
+    category: subtransaction.category_name ?? undefined,
+  }));
+}
+
+/**
+ * Convert the children to subtransactions that sum exactly to the parent, as YNAB requires. Any sub-cent rounding
+ * difference is absorbed by the last subtransaction.
+ */
+function toSubtransactions(parentMilliunits: number, children: ChildTransaction[]) {
+  const subtransactions = children.map((child) => ({ amount: toMilliunits(child.amount), memo: child.description }));
+  const difference = parentMilliunits - subtransactions.reduce((total, { amount }) => total + amount, 0);
+  if (Math.abs(difference) > 10) {
+    throw new Error(
+      `Split amounts total ${fromMilliunits(parentMilliunits - difference).toFixed(2)} but the YNAB transaction is ` +
+        `${fromMilliunits(parentMilliunits).toFixed(2)}`,
+    );
+  }
+  subtransactions[subtransactions.length - 1].amount += difference;
+  return subtransactions;
+}
+
+function getSplitMessage(id: string): string {
+  return (
+    `YNAB transaction ${id} is split, and the YNAB API cannot change a split. ` +
+    'Remove the split in YNAB, then run again.'
+  );
+}
+
+/**
+ * Backend for YNAB, using its REST API with a personal access token
+ */
+export default class YnabClient implements Backend {
+  readonly displayName = 'YNAB';
+  private token: string | null = null;
+  private categoryIds: Map<string, string> | null = null;
+
+  constructor(private config: Config) {}
+
+  private async getToken(): Promise<string> {
+    if (!this.token) {
+      this.token = process.env[TOKEN_ENV_VARIABLE] ?? null;
+    }
+    if (!this.token) {
+      try {
+        this.token = (await readFile(TOKEN_FILE)).toString().trim();
+      } catch (e) {
+        throw new Error(
+          `No YNAB personal access token found. Set ${TOKEN_ENV_VARIABLE} or save the token to ${TOKEN_FILE}. ` +
+            'Tokens are created under Account Settings > Developer Settings in YNAB.',
+        );
+      }
+    }
+    return this.token;
+  }
+
+  private async request<T>(method: 'get' | 'put', path: string, data?: unknown, params?: Record<string, string>) {
+    const url = `${this.config.ynabApiUrl}/budgets/${encodeURIComponent(this.config.ynabBudgetId)}${path}`;
+    try {
+      const response = await axios.request<{ data: T }>({
+        method,
+        url,
+        data,
+        params,
+        headers: {
+          authorization: `Bearer ${await this.getToken()}`,
+          accept: 'application/json',
+        },
+      });
+      return response.data.data;
+    } catch (e) {
+      if (e instanceof AxiosError && e.response) {
+        const detail = e.response.data?.error?.detail ?? e.response.statusText;
+        if (e.response.status === 401) {
+          throw new Error(`YNAB rejected the access token. Update ${TOKEN_ENV_VARIABLE} or ${TOKEN_FILE}.`);
+        }
+        throw new Error(`YNAB ${method.toUpperCase()} ${path} failed (${e.response.status}): ${detail}`);
+      }
+      throw e;
+    }
+  }
+
+  private async getRawTransaction(id: string): Promise<RawTransaction> {
+    const { transaction } = await this.request<{ transaction: RawTransaction }>(
+      'get',
+      `/transactions/${encodeURIComponent(id)}`,
+    );
+    return transaction;
+  }
+
+  async getTransactions(startDate: Date): Promise<Transaction[]> {
+    const { transactions } = await this.request<{ transactions: RawTransaction[] }>('get', '/transactions', undefined, {
+      since_date: startDate.toISOString().substring(0, 10),
+    });
+    const accountIds = this.config.ynabAccountIds;
+    return transactions
+      .filter(({ deleted }) => !deleted)
+      .filter(({ account_id }) => accountIds.length === 0 || accountIds.includes(account_id))
+      .filter((transaction) =>
+        isAmazonDescription(
+          transaction.import_payee_name_original ?? transaction.import_payee_name ?? transaction.payee_name ?? '',
+          this.config,
+        ),
+      )
+      .map((transaction) => ({
+        id: transaction.id,
+        amount: fromMilliunits(transaction.amount),
+        date: new Date(transaction.date),
+        children: toChildTransactions(transaction),
+      }))
+      .filter((transaction) => isInDateRange(this.config, transaction.date, startDate))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async updateTransaction(joinedRecord: JoinedRecord): Promise<void> {
+    await this.writeTransaction(joinedRecord.mintTransactionId, joinedRecord.items);
+  }
+
+  async restoreTransaction(transaction: Transaction): Promise<void> {
+    await this.writeTransaction(transaction.id, transaction.children);
+  }
+
+  /**
+   * Get the id of the YNAB category with the name
+   */
+  private async getCategoryId(name: string): Promise<string> {
+    if (!this.categoryIds) {
+      const { category_groups } = await this.request<{ category_groups: RawCategoryGroup[] }>('get', '/categories');
+      this.categoryIds = new Map(
+        category_groups
+          .flatMap(({ categories }) => categories)
+          .filter(({ deleted }) => !deleted)
+          .map(({ id, name }) => [name.toLowerCase(), id]),
+      );
+    }
+    const id = this.categoryIds.get(name.toLowerCase());
+    if (!id) {
+      throw new Error(`Unknown YNAB category "${name}". Check the categoryRules in the config file.`);
+    }
+    return id;
+  }
+
+  /**
+   * The YNAB API can turn a transaction into a split but cannot change or remove an existing split, including one
+   * written by an earlier run
+   */
+  getUnwritableReason({ id, children }: Transaction): string | null {
+    return children.length > 1 ? getSplitMessage(id) : null;
+  }
+
+  /**
+   * Write a single child as the transaction's memo, or multiple children as subtransactions with one memo per item.
+   * Children without a category are left uncategorized.
+   */
+  private async writeTransaction(id: string, children: ChildTransaction[]): Promise<void> {
+    const transaction = await this.getRawTransaction(id);
+    // Also checked before the run or undo starts, but the transaction may have been split since
+    if (transaction.subtransactions.some(({ deleted }) => !deleted)) {
+      throw new Error(getSplitMessage(id));
+    }
+    const categoryIds: (string | null)[] = [];
+    for (const { category } of children) {
+      categoryIds.push(category ? await this.getCategoryId(category) : null);
+    }
+    const update =
+      children.length === 1
+        ? { memo: children[0].description, ...(categoryIds[0] ? { category_id: categoryIds[0] } : {}) }
+        : {
+            subtransactions: toSubtransactions(transaction.amount, children).map((subtransaction, i) => ({
+              ...subtransaction,
+              category_id: categoryIds[i],
+            })),
+          };
+    await this.request('put', `/transactions/${encodeURIComponent(id)}`, { transaction: update });
+  }
+
+  /**
+   * Forget the token so that it is read again. The personal access token file is the user's own and is kept.
+   */
+  async clearCredentials() {
+    this.token = null;
+  }
+}
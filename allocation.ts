@@ -0,0 +1,87 @@
+import { Item } from './AmazonClient';
+import { AllocationMode } from './Config';
+import { toCents } from './subsetSum';
+
+export const TAX_DESCRIPTION = 'Tax';
+export const SHIPPING_DESCRIPTION = 'Shipping';
+export const DISCOUNT_DESCRIPTION = 'Discount';
+
+/**
+ * What one line of an order cost, as positive amounts from the order history export
+ */
+export interface ItemCharges {
+  description: string;
+  /**
+   * Unit price times quantity, before tax, shipping and discounts
+   */
+  price: number;
+  tax: number;
+  shipping: number;
+  discount: number;
+  /**
+   * What was charged for the line, including tax, shipping and discounts
+   */
+  total: number;
+}
+
+/**
+ * Split the cents between the weights so the parts add up exactly, giving the leftover cents to the largest
+ * remainders (and the earliest parts on ties)
+ */
+function splitCents(cents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const shares = weights.map((weight) =>
+    totalWeight > 0 ? (Math.abs(cents) * weight) / totalWeight : Math.abs(cents) / weights.length,
+  );
+  const parts = shares.map((share) => Math.floor(share));
+  let leftover = Math.abs(cents) - parts.reduce((total, part) => total + part, 0);
+  const byRemainder = shares
+    .map((share, i) => ({ i, remainder: share - parts[i] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { i } of byRemainder) {
+    if (leftover <= 0) {
+      break;
+    }
+    parts[i]++;
+    leftover--;
+  }
+  return parts.map((part) => Math.sign(cents) * part);
+}
+
+function toItem(description: string, cents: number): Item {
+  // Purchases are negative, like the card charges they are matched to
+  return { description, amount: -cents / 100 };
+}
+
+/**
+ * Turn the lines of a shipment into split items that add up to what the shipment was charged:
+ * - proportional: tax, shipping and discounts are spread over the items in proportion to their price
+ * - separate: items at their price, with tax, shipping and discounts as their own lines
+ * - none: each item at the line total from the export
+ *
+ * Any difference between the line totals and their parts is cent-level rounding, which is absorbed by the tax line
+ * (separate) or spread over the items (proportional).
+ */
+export function allocateCharges(charges: ItemCharges[], mode: AllocationMode): Item[] {
+  if (mode === 'none') {
+    return charges.map(({ description, total }) => toItem(description, toCents(total)));
+  }
+  const totalCents = charges.reduce((total, { total: lineTotal }) => total + toCents(lineTotal), 0);
+  const priceCents = charges.map(({ price }) => toCents(price));
+  const extraCents = totalCents - priceCents.reduce((total, cents) => total + cents, 0);
+
+  if (mode === 'proportional') {
+    const allocations = splitCents(extraCents, priceCents);
+    return charges.map(({ description }, i) => toItem(description, priceCents[i] + allocations[i]));
+  }
+
+  const shippingCents = charges.reduce((total, { shipping }) => total + toCents(shipping), 0);
+  const discountCents = charges.reduce((total, { discount }) => total + toCents(discount), 0);
+  const taxCents = extraCents - shippingCents + discountCents;
+  return [
+    ...charges.map(({ description }, i) => toItem(description, priceCents[i])),
+    ...(taxCents !== 0 ? [toItem(TAX_DESCRIPTION, taxCents)] : []),
+    ...(shippingCents !== 0 ? [toItem(SHIPPING_DESCRIPTION, shippingCents)] : []),
+    ...(discountCents !== 0 ? [toItem(DISCOUNT_DESCRIPTION, -discountCents)] : []),
+  ];
+}
@@ -0,0 +1,165 @@
+import { Readable } from 'stream';
+import { CsvError, parse } from 'csv-parse';
+
+/**
+ * How the Amazon exports show a value they do not have, such as the ship date of an unshipped item
+ */
+const NOT_AVAILABLE = 'not available';
+
+/**
+ * A header or row of an Amazon export file that cannot be read
+ */
+export class AmazonCsvError extends Error {
+  constructor(
+    readonly file: string,
+    readonly line: number,
+    readonly column: string | null,
+    reason: string,
+  ) {
+    super(`${file} line ${line}${column !== null ? `, column "${column}"` : ''}: ${reason}`);
+  }
+}
+
+export interface AmazonCsvResult<T> {
+  records: T[];
+  /**
+   * Rows that could not be read, in lenient mode
+   */
+  skippedRows: AmazonCsvError[];
+}
+
+function isMissing(value: string): boolean {
+  return value === '' || value.toLowerCase() === NOT_AVAILABLE;
+}
+
+/**
+ * One row of an Amazon export, with its values looked up by column name
+ */
+export class AmazonCsvRow {
+  constructor(
+    private file: string,
+    readonly line: number,
+    private values: Record<string, string>,
+  ) {}
+
+  private get(column: string): string {
+    return (this.values[column] ?? '').trim();
+  }
+
+  private error(column: string, reason: string): AmazonCsvError {
+    return new AmazonCsvError(this.file, this.line, column, reason);
+  }
+
+  string(column: string): string {
+    const value = this.get(column);
+    if (isMissing(value)) {
+      throw this.error(column, 'Missing value');
+    }
+    return value;
+  }
+
+  optionalString(column: string): string | null {
+    const value = this.get(column);
+    return isMissing(value) ? null : value;
+  }
+
+  date(column: string): Date {
+    const date = this.optionalDate(column);
+    if (date === null) {
+      throw this.error(column, 'Missing date');
+    }
+    return date;
+  }
+
+  /**
+   * Read a date, or null when it is blank or "Not Available". Only the day is kept.
+   */
+  optionalDate(column: string): Date | null {
+    const value = this.get(column);
+    if (isMissing(value)) {
+      return null;
+    }
+    const date = new Date(value.substring(0, 10));
+    if (isNaN(date.getTime())) {
+      throw this.error(column, `Invalid date ${JSON.stringify(value)}`);
+    }
+    return date;
+  }
+
+  amount(column: string): number {
+    const amount = this.optionalAmount(column);
+    if (amount === null) {
+      throw this.error(column, 'Missing amount');
+    }
+    return amount;
+  }
+
+  /**
+   * Read an amount, which may be formatted as currency, or null when it is blank or "Not Available"
+   */
+  optionalAmount(column: string): number | null {
+    const value = this.get(column);
+    if (isMissing(value)) {
+      return null;
+    }
+    const amount = Number(value.replace(/[$,'\s]/g, ''));
+    if (isNaN(amount)) {
+      throw this.error(column, `Invalid amount ${JSON.stringify(value)}`);
+    }
+    return amount;
+  }
+}
+
+/**
+ * Read an Amazon export file by its header names, calling it file in messages. Every required column must be in the
+ * header. A row that cannot be read throws an AmazonCsvError, unless isLenient is set, in which case it is skipped and
+ * returned in skippedRows.
+ */
+export async function readAmazonCsv<T>(
+  file: string,
+  input: Readable,
+  requiredColumns: string[],
+  toRecord: (row: AmazonCsvRow) => T,
+  isLenient: boolean,
+): Promise<AmazonCsvResult<T>> {
+  const parser = input.pipe(
+    parse({
+      delimiter: ',',
+      bom: true,
+      columns: (headers: string[]) => {
+        const trimmedHeaders = headers.map((header) => header.trim());
+        const missingColumns = requiredColumns.filter((column) => !trimmedHeaders.includes(column));
+        if (missingColumns.length > 0) {
+          throw new AmazonCsvError(file, 1, null, `Missing column(s) ${missingColumns.join(', ')}`);
+        }
+        return trimmedHeaders;
+      },
+      info: true,
+      relax_quotes: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+    }),
+  );
+  const result: AmazonCsvResult<T> = { records: [], skippedRows: [] };
+  try {
+    for await (const { record, info } of parser as AsyncIterable<{
+      record: Record<string, string>;
+      info: { lines: number };
+    }>) {
+      try {
+        result.records.push(toRecord(new AmazonCsvRow(file, info.lines, record)));
+      } catch (e) {
+        if (!(e instanceof AmazonCsvError) || !isLenient) {
+          throw e;
+        }
+        result.skippedRows.push(e);
+      }
+    }
+  } catch (e) {
+    if (e instanceof CsvError) {
+      throw new AmazonCsvError(file, (e as CsvError & { lines?: number }).lines ?? 0, null, e.message);
+    }
+    throw e;
+  }
+  return result;
+}
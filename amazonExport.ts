@@ -0,0 +1,135 @@
+import fs from 'fs';
+import { readFile, readdir, stat } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { Readable } from 'stream';
+import { readZipEntries } from './zipArchive';
+
+/**
+ * A file of an Amazon export, either on disk or inside a ZIP archive
+ */
+export interface ExportFile {
+  /**
+   * Where the file is, for messages (e.g. "Your Orders.zip/Retail.OrderHistory.1/Retail.OrderHistory.1.csv")
+   */
+  path: string;
+  name: string;
+  open(): Readable;
+}
+
+/**
+ * One Amazon export: a directory or ZIP archive of a household member's account. An account can have several exports,
+ * e.g. downloads of overlapping date ranges.
+ */
+export interface AmazonExport {
+  /**
+   * Name of the account the export is of
+   */
+  account: string;
+  /**
+   * Where the export is, for messages
+   */
+  path: string;
+  files: ExportFile[];
+}
+
+function isZip(path: string): boolean {
+  return extname(path).toLowerCase() === '.zip';
+}
+
+function getAccountName(path: string): string {
+  return isZip(path) ? basename(path, extname(path)) : basename(path);
+}
+
+function comparePaths(a: ExportFile, b: ExportFile): number {
+  // Numbered files sort by number, so Retail.OrderHistory.10 comes after Retail.OrderHistory.2
+  return a.path.localeCompare(b.path, undefined, { numeric: true });
+}
+
+function getZipFiles(path: string, archive: Buffer): ExportFile[] {
+  return readZipEntries(path, archive).flatMap((entry) => {
+    const entryPath = `${path}/${entry.name}`;
+    if (isZip(entry.name)) {
+      // Some exports have archives inside the archive
+      return getZipFiles(entryPath, entry.read());
+    }
+    return [{ path: entryPath, name: basename(entry.name), open: () => Readable.from([entry.read()]) }];
+  });
+}
+
+/**
+ * Every file in a directory or ZIP archive, including the files in its subdirectories and nested archives
+ */
+async function getFiles(path: string): Promise<ExportFile[]> {
+  if ((await stat(path)).isDirectory()) {
+    const files: ExportFile[] = [];
+    for (const name of await readdir(path)) {
+      files.push(...(await getFiles(join(path, name))));
+    }
+    return files.sort(comparePaths);
+  }
+  if (isZip(path)) {
+    return getZipFiles(path, await readFile(path)).sort(comparePaths);
+  }
+  return [{ path, name: basename(path), open: () => fs.createReadStream(path) }];
+}
+
+/**
+ * Whether the directory is an unzipped export, with order files in it or in its top level directories
+ */
+async function isExportDirectory(path: string, isOrderFile: (name: string) => boolean): Promise<boolean> {
+  for (const name of await readdir(path)) {
+    if (isOrderFile(name)) {
+      return true;
+    }
+    const childPath = join(path, name);
+    if ((await stat(childPath)).isDirectory() && (await readdir(childPath)).some(isOrderFile)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function findPathExports(path: string, isOrderFile: (name: string) => boolean): Promise<AmazonExport[]> {
+  const isDirectory = (await stat(path)).isDirectory();
+  if (isZip(path) || (isDirectory && (await isExportDirectory(path, isOrderFile)))) {
+    const files = await getFiles(path);
+    return files.some((file) => isOrderFile(file.name)) ? [{ account: getAccountName(path), path, files }] : [];
+  }
+  if (!isDirectory) {
+    return [];
+  }
+  // A directory of exports, such as one ZIP archive per household member
+  const exports: AmazonExport[] = [];
+  for (const name of (await readdir(path)).sort()) {
+    exports.push(...(await findPathExports(join(path, name), isOrderFile)));
+  }
+  return exports;
+}
+
+/**
+ * Find the Amazon exports in the inputs, each a directory or ZIP archive optionally named with <name>=<path>. An input
+ * with order files in it (as laid out by Amazon) is one export. Otherwise each ZIP archive or directory under it with
+ * order files is an export. Exports are of the account named after them (prefixed with the input's name, if it has
+ * one), or of the input's name when it is a single export. Exports with the same name are of the same account.
+ */
+export async function findExports(inputs: string[], isOrderFile: (name: string) => boolean): Promise<AmazonExport[]> {
+  const exports: AmazonExport[] = [];
+  for (const input of inputs) {
+    const namedInput = fs.existsSync(input) ? null : /^([^=/\\]+)=(.+)$/.exec(input);
+    const path = namedInput ? namedInput[2] : input;
+    if (!fs.existsSync(path)) {
+      throw new Error(`Amazon orders path not found: ${path}`);
+    }
+    const inputExports = await findPathExports(path, isOrderFile);
+    if (inputExports.length === 0) {
+      throw new Error(`No Amazon order history found in ${path}`);
+    }
+    for (const amazonExport of inputExports) {
+      if (namedInput) {
+        amazonExport.account = inputExports.length === 1 ? namedInput[1] : `${namedInput[1]}/${amazonExport.account}`;
+      }
+      exports.push(amazonExport);
+    }
+  }
+  return exports;
+}
@@ -0,0 +1,182 @@
+/**
+ * Choosing the best set of non-conflicting candidate matches, where candidates conflict when they use the same
+ * resource (e.g. a shipment or a transaction).
+ */
+
+export interface AssignmentCandidate {
+  /**
+   * Ids of what the candidate uses. Each resource can be used by at most one chosen candidate.
+   */
+  resources: string[];
+  /**
+   * What the candidate is worth, compared in order (earlier values take priority). The total value is maximized.
+   */
+  value: number[];
+  /**
+   * Among assignments of equal value, the one with the lowest total cost is chosen
+   */
+  cost: number;
+  /**
+   * Candidates with the same key are interchangeable, so a tie between assignments that only differ in them is not
+   * ambiguous
+   */
+  key: string;
+}
+
+export interface Assignment<T extends AssignmentCandidate> {
+  chosen: T[];
+  /**
+   * Groups of candidates that were part of equally good assignments, none of which were chosen
+   */
+  ambiguous: T[][];
+  /**
+   * Whether the search of any group stopped at its limits, in which case the best assignment found so far was used
+   */
+  isTruncated: boolean;
+}
+
+const COST_EPSILON = 1e-6;
+// Keeps a single component from searching forever; the best assignment found so far is used
+const MAX_NODES = 200_000;
+// Only a few tied assignments are needed to tell which candidates are ambiguous
+const MAX_TIED_ASSIGNMENTS = 10;
+
+function compareValues(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (Math.abs(difference) > COST_EPSILON) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function addValues(a: number[], b: number[]): number[] {
+  return new Array(Math.max(a.length, b.length)).fill(0).map((_, i) => (a[i] ?? 0) + (b[i] ?? 0));
+}
+
+/**
+ * Split the candidates into groups that share no resources, so each group can be solved on its own
+ */
+function getComponents<T extends AssignmentCandidate>(candidates: T[]): T[][] {
+  const parents = candidates.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parents[i] !== i) {
+      parents[i] = parents[parents[i]];
+      i = parents[i];
+    }
+    return i;
+  };
+  const owners = new Map<string, number>();
+  candidates.forEach((candidate, i) => {
+    for (const resource of candidate.resources) {
+      const owner = owners.get(resource);
+      if (owner === undefined) {
+        owners.set(resource, i);
+      } else {
+        parents[find(i)] = find(owner);
+      }
+    }
+  });
+  const components = new Map<number, T[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    components.set(root, [...(components.get(root) ?? []), candidate]);
+  });
+  return [...components.values()];
+}
+
+function getKeys(candidates: AssignmentCandidate[]): string {
+  return candidates
+    .map(({ key }) => key)
+    .sort()
+    .join('\n');
+}
+
+/**
+ * Find every optimal assignment of the component (up to MAX_TIED_ASSIGNMENTS) with a branch and bound search
+ */
+function solveComponent<T extends AssignmentCandidate>(
+  component: T[],
+  timeLimitMs: number,
+): { optimal: T[][]; isTruncated: boolean } {
+  const deadline = Date.now() + timeLimitMs;
+  const candidates = [...component].sort((a, b) => -compareValues(a.value, b.value) || a.cost - b.cost);
+  let bestValue: number[] = [];
+  let bestCost = Infinity;
+  let optimal: T[][] = [];
+  let nodes = 0;
+  let isLimited = false;
+
+  const usedResources = new Set<string>();
+  const chosen: T[] = [];
+  const isAvailable = (candidate: T) => candidate.resources.every((resource) => !usedResources.has(resource));
+
+  const search = (i: number, value: number[], cost: number) => {
+    if (isLimited || ++nodes > MAX_NODES || (nodes % 1024 === 0 && Date.now() > deadline)) {
+      isLimited = true;
+      return;
+    }
+    if (i === candidates.length) {
+      const comparison = compareValues(value, bestValue);
+      if (comparison > 0 || (comparison === 0 && cost < bestCost - COST_EPSILON)) {
+        bestValue = value;
+        bestCost = cost;
+        optimal = [[...chosen]];
+      } else if (comparison === 0 && Math.abs(cost - bestCost) <= COST_EPSILON) {
+        const keys = getKeys(chosen);
+        if (optimal.length < MAX_TIED_ASSIGNMENTS && optimal.every((assignment) => getKeys(assignment) !== keys)) {
+          optimal.push([...chosen]);
+        }
+      }
+      return;
+    }
+
+    // Prune when even taking every remaining available candidate could not beat the best assignment
+    const bound = candidates
+      .slice(i)
+      .filter(isAvailable)
+      .reduce((total, { value }) => addValues(total, value), value);
+    const comparison = compareValues(bound, bestValue);
+    if (comparison < 0 || (comparison === 0 && cost > bestCost + COST_EPSILON)) {
+      return;
+    }
+
+    const candidate = candidates[i];
+    if (isAvailable(candidate)) {
+      candidate.resources.forEach((resource) => usedResources.add(resource));
+      chosen.push(candidate);
+      search(i + 1, addValues(value, candidate.value), cost + candidate.cost);
+      chosen.pop();
+      candidate.resources.forEach((resource) => usedResources.delete(resource));
+    }
+    search(i + 1, value, cost);
+  };
+  search(0, [], 0);
+  return { optimal, isTruncated: isLimited };
+}
+
+/**
+ * Choose the non-conflicting candidates with the highest total value and then the lowest total cost. When several
+ * assignments are equally good, only the candidates they agree on are chosen and the rest are reported as ambiguous.
+ * Each group of conflicting candidates is searched for at most timeLimitMs.
+ */
+export function solveAssignment<T extends AssignmentCandidate>(candidates: T[], timeLimitMs: number): Assignment<T> {
+  const assignment: Assignment<T> = { chosen: [], ambiguous: [], isTruncated: false };
+  for (const component of getComponents(candidates)) {
+    const { optimal, isTruncated } = solveComponent(component, timeLimitMs);
+    assignment.isTruncated ||= isTruncated;
+    if (optimal.length === 0) {
+      continue;
+    }
+    const agreedKeys = optimal
+      .map((candidates) => new Set(candidates.map(({ key }) => key)))
+      .reduce((agreed, keys) => new Set([...agreed].filter((key) => keys.has(key))));
+    assignment.chosen.push(...optimal[0].filter(({ key }) => agreedKeys.has(key)));
+    if (optimal.length > 1) {
+      const ambiguous = new Set(optimal.flat().filter(({ key }) => !agreedKeys.has(key)));
+      assignment.ambiguous.push([...ambiguous]);
+    }
+  }
+  return assignment;
+}
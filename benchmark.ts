@@ -0,0 +1,161 @@
+import { Transaction } from './Backend';
+import { Order, Shipment } from './AmazonClient';
+import { Config, MATCHING_MODES, loadConfig } from './Config';
+import Joiner from './Joiner';
+import { SubsetSearchResult, findSubsetWithSum } from './subsetSum';
+import { getTotalAmount } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ORDER_DATE = new Date('2023-06-15');
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32) so every run benchmarks the same data
+ */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let random = createRandom(42);
+
+function randomAmount(max: number): number {
+  return -Number((1 + random() * (max - 1)).toFixed(2));
+}
+
+function createShipment(trackingId: string, itemCount: number): Shipment {
+  const items = new Array(itemCount)
+    .fill(null)
+    .map((_, i) => ({ description: `${trackingId} item ${i}`, amount: randomAmount(200) }));
+  return { trackingId, shipmentDate: ORDER_DATE, amount: getTotalAmount(items), items };
+}
+
+function createOrder(orderId: string, shipments: Shipment[]): Order {
+  return { orderId, account: 'benchmark', source: 'retail', orderDate: ORDER_DATE, usedGiftCard: false, shipments };
+}
+
+function createTransaction(id: string, amount: number, dayOffset: number): Transaction {
+  return {
+    id,
+    amount,
+    date: new Date(ORDER_DATE.getTime() + dayOffset * DAY_MS),
+    children: [{ description: 'Amazon.com', amount }],
+  };
+}
+
+/**
+ * Transactions around the order date that do not belong to any order
+ */
+function createNoiseTransactions(count: number): Transaction[] {
+  return new Array(count)
+    .fill(null)
+    .map((_, i) => createTransaction(`noise-${i}`, randomAmount(300), Math.round((random() - 0.5) * 20)));
+}
+
+function time(name: string, run: () => string) {
+  const start = process.hrtime.bigint();
+  const result = run();
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  console.log(`${name.padEnd(60)} ${ms.toFixed(1).padStart(9)}ms  ${result}`);
+}
+
+function describeMatch({ subset, isTruncated }: SubsetSearchResult<unknown>): string {
+  if (isTruncated) {
+    return 'stopped at a limit';
+  }
+  return subset ? `matched ${subset.length} items` : 'no match';
+}
+
+function benchmarkReturnItems(config: Config, itemCount: number) {
+  const items = createShipment('return', itemCount).items;
+  const returned = items.filter((_, i) => i % 5 === 2);
+  time(`Return matching, ${itemCount} items`, () =>
+    describeMatch(findSubsetWithSum(items, getTotalAmount(returned), config)),
+  );
+  // Only even cents, so no subset can reach an odd number of cents and the whole search space is explored
+  const evenItems = items.map((item) => ({ ...item, amount: Math.round(item.amount * 50) / 50 }));
+  time(`Return matching, ${itemCount} items, no solution`, () =>
+    describeMatch(findSubsetWithSum(evenItems, Math.round(getTotalAmount(evenItems) * 25) / 50 + 0.01, config)),
+  );
+}
+
+function benchmarkJoin(config: Config, name: string, orders: Order[], transactions: Transaction[]) {
+  time(`${name} (${config.matching})`, () => {
+    const { joinedRecords, remainingAmazonOrders, truncatedSearches } = new Joiner(config).joinOrders(
+      transactions,
+      orders,
+      [],
+    );
+    return (
+      `${joinedRecords.length} joined, ${remainingAmazonOrders.length} orders left` +
+      (truncatedSearches.length > 0 ? `, ${truncatedSearches.length} searches stopped at a limit` : '')
+    );
+  });
+}
+
+function benchmarkManyShipments(config: Config, shipmentCount: number) {
+  const shipments = new Array(shipmentCount).fill(null).map((_, i) => createShipment(`shipment-${i}`, 1));
+  const transactions = shipments.map((shipment, i) => createTransaction(`transaction-${i}`, shipment.amount, i % 7));
+  benchmarkJoin(
+    config,
+    `Join, ${shipmentCount} shipments charged separately`,
+    [createOrder('many-shipments', shipments)],
+    [...transactions, ...createNoiseTransactions(20)],
+  );
+}
+
+function benchmarkCombinedCharges(config: Config, transactionCount: number) {
+  const shipment = createShipment('combined', 12);
+  // The order was charged as three separate transactions
+  const amounts = [shipment.items.slice(0, 4), shipment.items.slice(4, 9), shipment.items.slice(9)].map(getTotalAmount);
+  const transactions = amounts.map((amount, i) => createTransaction(`charge-${i}`, amount, i + 1));
+  benchmarkJoin(
+    config,
+    `Join, 3 charges among ${transactionCount} transactions`,
+    [createOrder('combined-charges', [shipment])],
+    [...transactions, ...createNoiseTransactions(transactionCount - transactions.length)],
+  );
+}
+
+function benchmarkItemSplit(config: Config, itemCount: number) {
+  const shipment = createShipment('split', itemCount);
+  const transactions = [
+    createTransaction('split-0', getTotalAmount(shipment.items.slice(0, itemCount / 2)), 1),
+    createTransaction('split-1', getTotalAmount(shipment.items.slice(itemCount / 2)), 2),
+  ];
+  benchmarkJoin(
+    config,
+    `Join, ${itemCount} items split across 2 charges`,
+    [createOrder('item-split', [shipment])],
+    transactions,
+  );
+}
+
+async function main() {
+  const config = await loadConfig(null, { since: '2023-01-01' });
+  console.log(
+    `Limits: ${config.subsetMaxItems} items, groups of up to ${config.subsetMaxSize}, ` +
+      `${config.subsetMaxGroups} shipment groups, ${config.subsetTimeLimitMs}ms per search`,
+  );
+  benchmarkReturnItems(config, 25);
+  benchmarkReturnItems(config, 40);
+  for (const matching of MATCHING_MODES) {
+    // Both matching modes see the same orders and transactions
+    random = createRandom(7);
+    const matchingConfig: Config = { ...config, matching };
+    benchmarkManyShipments(matchingConfig, 10);
+    benchmarkManyShipments(matchingConfig, 25);
+    benchmarkCombinedCharges(matchingConfig, 20);
+    benchmarkCombinedCharges(matchingConfig, 40);
+    benchmarkItemSplit(matchingConfig, 20);
+    benchmarkItemSplit(matchingConfig, 30);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+import { Config, DescriptionPlaceholder } from './Config';
+
+const ELLIPSIS = '…';
+// Where a product title moves on from the product's name to its details, e.g. "Anker Charger, 20W ..." or "Mug (Blue)"
+const TITLE_DETAILS_SEPARATOR = /,|;|\s[-–|:/]\s|\s[([]|\s(?:with|for)\s/i;
+
+/**
+ * The order a split item is from, for the description template
+ */
+export interface DescriptionContext {
+  orderId: string;
+  account: string;
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length <= maxLength ? value : value.substring(0, maxLength - 1).trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Fill in the placeholders of a template, which loadConfig has checked are all known
+ */
+function renderTemplate(template: string, values: Record<DescriptionPlaceholder, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, name: string) => values[name as DescriptionPlaceholder]);
+}
+
+/**
+ * Shorten a product title to at most maxLength characters: to the product's name without its details, then to its
+ * brand (the first word) and key noun (the last word of the name), and otherwise by cutting it off
+ */
+function shortenTitle(title: string, maxLength: number): string {
+  if (title.length <= maxLength) {
+    return title;
+  }
+  const name = title.split(TITLE_DETAILS_SEPARATOR)[0].trim();
+  if (name.length > 0 && name.length <= maxLength) {
+    return name;
+  }
+  const words = name.split(/\s+/);
+  if (words.length > 2) {
+    const brandAndNoun = `${words[0]} ${words[words.length - 1]}`;
+    if (brandAndNoun.length <= maxLength) {
+      return brandAndNoun;
+    }
+  }
+  return truncate(title, maxLength);
+}
+
+/**
+ * Get the description of a split item from the description template, with the title shortened so the description
+ * fits in descriptionMaxLength. Identical items merged into one line have a quantity over 1.
+ */
+export function formatDescription(
+  title: string,
+  quantity: number,
+  context: DescriptionContext,
+  config: Config,
+): string {
+  const values: Record<DescriptionPlaceholder, string> = {
+    prefix: config.descriptionPrefix,
+    title: '',
+    quantity: quantity > 1 ? ` ×${quantity}` : '',
+    orderId: context.orderId,
+    account: context.account,
+  };
+  const titleLength = Math.max(
+    1,
+    config.descriptionMaxLength - renderTemplate(config.descriptionTemplate, values).length,
+  );
+  const description = renderTemplate(config.descriptionTemplate, {
+    ...values,
+    title: shortenTitle(title.trim(), titleLength),
+  });
+  return truncate(description, config.descriptionMaxLength);
+}
+
+/**
+ * Whether two split descriptions are the same once spacing is normalized and both are held to descriptionMaxLength,
+ * so descriptions written by an earlier run match the ones formatted now
+ */
+export function isSameDescription(a: string, b: string, config: Config): boolean {
+  const normalize = (description: string) =>
+    truncate(description.trim().replace(/\s+/g, ' '), config.descriptionMaxLength);
+  return normalize(a) === normalize(b);
+}
@@ -0,0 +1,172 @@
+import { writeFile } from 'fs/promises';
+import { extname } from 'path';
+import { Transaction } from './Backend';
+import { Order, Return } from './AmazonClient';
+import { JoinedRecord } from './Joiner';
+import { toCsvLine } from './utils';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'qif'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface RunResults {
+  transactions: Transaction[];
+  orders: Order[];
+  joinedRecords: JoinedRecord[];
+  remainingTransactions: Transaction[];
+  remainingOrders: Order[];
+  unmatchedReturns: Return[];
+}
+
+const CSV_HEADERS = [
+  'Type',
+  'Date',
+  'Transaction Id',
+  'Transaction Amount',
+  'Order Id',
+  'Tracking Id',
+  'Description',
+  'Amount',
+  'Account',
+  'Category',
+];
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function toCsv({ transactions, joinedRecords, remainingTransactions, remainingOrders, unmatchedReturns }: RunResults) {
+  const rows: (string | number)[][] = [];
+  for (const record of joinedRecords) {
+    const transaction = transactions.find(({ id }) => id === record.mintTransactionId);
+    for (const item of record.items) {
+      rows.push([
+        'joined',
+        toDateString(transaction?.date ?? record.orderDate),
+        record.mintTransactionId,
+        record.amount.toFixed(2),
+        record.orderId,
+        item.trackingId,
+        item.description,
+        item.amount.toFixed(2),
+        record.account,
+        item.category ?? '',
+      ]);
+    }
+  }
+  for (const transaction of remainingTransactions) {
+    for (const child of transaction.children) {
+      rows.push([
+        'remaining-transaction',
+        toDateString(transaction.date),
+        transaction.id,
+        transaction.amount.toFixed(2),
+        '',
+        '',
+        child.description,
+        child.amount.toFixed(2),
+        '',
+        child.category ?? '',
+      ]);
+    }
+  }
+  for (const order of remainingOrders) {
+    for (const shipment of order.shipments) {
+      for (const item of shipment.items) {
+        rows.push([
+          'remaining-order',
+          toDateString(order.orderDate),
+          '',
+          '',
+          order.orderId,
+          shipment.trackingId,
+          item.description,
+          item.amount.toFixed(2),
+          order.account,
+          '',
+        ]);
+      }
+    }
+  }
+  for (const returnRecord of unmatchedReturns) {
+    const items =
+      returnRecord.items.length > 0 ? returnRecord.items : [{ description: '', amount: returnRecord.amount }];
+    for (const item of items) {
+      rows.push([
+        'unmatched-return',
+        toDateString(returnRecord.returnDate),
+        '',
+        '',
+        returnRecord.orderId,
+        '',
+        item.description,
+        item.amount.toFixed(2),
+        returnRecord.account,
+        '',
+      ]);
+    }
+  }
+  return [CSV_HEADERS, ...rows].map((row) => toCsvLine(row) + '\n').join('');
+}
+
+function toJson({ joinedRecords, remainingTransactions, remainingOrders, unmatchedReturns }: RunResults): string {
+  return JSON.stringify(
+    {
+      joinedRecords: joinedRecords.map(({ amazonReturn, ...record }) => ({
+        ...record,
+        returnDate: amazonReturn?.returnDate ?? null,
+      })),
+      remainingTransactions,
+      remainingOrders,
+      unmatchedReturns,
+    },
+    null,
+    2,
+  );
+}
+
+function toQifDate(date: Date): string {
+  const [year, month, day] = toDateString(date).split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Transactions in QIF, with the joined records' items as splits. Orders and returns that were not matched to a
+ * transaction have no place in QIF and are left out.
+ */
+function toQif({ transactions, joinedRecords, remainingTransactions }: RunResults): string {
+  const lines = ['!Type:CCard'];
+  for (const record of joinedRecords) {
+    const transaction = transactions.find(({ id }) => id === record.mintTransactionId);
+    lines.push(`D${toQifDate(transaction?.date ?? record.orderDate)}`);
+    lines.push(`T${record.amount.toFixed(2)}`);
+    lines.push('PAmazon');
+    lines.push(`MAmazon order ${record.orderId} (${record.account})`);
+    for (const item of record.items) {
+      lines.push(`S${item.category ?? ''}`);
+      lines.push(`E${item.description}`);
+      lines.push(`$${item.amount.toFixed(2)}`);
+    }
+    lines.push('^');
+  }
+  for (const transaction of remainingTransactions) {
+    lines.push(`D${toQifDate(transaction.date)}`);
+    lines.push(`T${transaction.amount.toFixed(2)}`);
+    lines.push('PAmazon');
+    lines.push(`M${transaction.children.map(({ description }) => description).join('; ')}`);
+    lines.push('^');
+  }
+  return lines.map((line) => line + '\n').join('');
+}
+
+/**
+ * Get the export format from the file extension, if it is one of the supported formats
+ */
+export function getFormatFromFile(file: string): ExportFormat | null {
+  const extension = extname(file).substring(1).toLowerCase();
+  return (EXPORT_FORMATS as readonly string[]).includes(extension) ? (extension as ExportFormat) : null;
+}
+
+export async function exportResults(results: RunResults, format: ExportFormat, file: string) {
+  const formatters: Record<ExportFormat, (results: RunResults) => string> = { csv: toCsv, json: toJson, qif: toQif };
+  await writeFile(file, formatters[format](results));
+}
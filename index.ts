@@ -1,162 +1,441 @@
-import MintClient, { Transaction } from './MintClient';
-import AmazonClient, { Order, Return } from './AmazonClient';
+import AmazonClient from './AmazonClient';
+import { AmazonCsvError } from './amazonCsv';
 import Joiner, { JoinedRecord } from './Joiner';
+import Categorizer from './Categorizer';
+import GiftCardLedger from './GiftCardLedger';
+import LinkLedger from './LinkLedger';
+import RunJournal, { toTransaction } from './RunJournal';
+import ReviewDecisions from './ReviewDecisions';
+import Reviewer from './Reviewer';
+import { Backend, UpdateResult, createBackend, getTransactionChanges } from './Backend';
+import { ConfigError, RawConfig, getBufferedStartDate, isInDateRange, loadConfig } from './Config';
+import { EXPORT_FORMATS, ExportFormat, RunResults, exportResults, getFormatFromFile } from './exporters';
+import { writeReport } from './report';
+import { MintApiError, MintAuthError } from './mintApi';
+import {
+  logAmazonOrders,
+  logAmazonReturns,
+  logAmbiguousMatches,
+  logExportConflicts,
+  logGiftCardBalances,
+  logJoinedRecords,
+  logRejectedPairs,
+  logSkippedRows,
+  logTransactions,
+  logTruncatedSearches,
+  logUncategorizedItems,
+  logUpdateResults,
+} from './logging';
 import 'source-map-support/register';
 
-const START_DATE = new Date('2023-03-01T00:00:00Z');
-const BUFFERED_START_DATE = new Date(START_DATE.getTime() - 14 * 24 * 60 * 60 * 1000);
+interface UndoOptions {
+  runId: string | null;
+  transactionId: string | null;
+}
 
 interface Options {
   amazonOrdersPaths: string[];
+  undo: UndoOptions | null;
   isDryrun: boolean;
   isRefreshCredentials: boolean;
+  isRelink: boolean;
+  isForce: boolean;
+  isReview: boolean;
+  outputPath: string | null;
+  outputFormat: ExportFormat | null;
+  reportPath: string | null;
+  configPath: string | null;
+  configOverrides: RawConfig;
 }
 const options: Options = {
   amazonOrdersPaths: [],
+  undo: null,
   isDryrun: false,
   isRefreshCredentials: false,
+  isRelink: false,
+  isForce: false,
+  isReview: false,
+  outputPath: null,
+  outputFormat: null,
+  reportPath: null,
+  configPath: null,
+  configOverrides: {},
 };
 
 const USAGE_MESSAGE =
-  'Usage: yarn start <path-to-amazon-orders-1> <path-to-amazon-orders-2> [--dry-run] [--refresh-creds]';
-for (let i = 2; i < process.argv.length; i++) {
+  'Usage: yarn start [<account>=]<amazon-orders-1> [<account>=]<amazon-orders-2> [--dry-run] [--refresh-creds] ' +
+  '[--relink] [--force] [--review] [--output <file>] [--format csv|json|qif] [--report <file>] [--config <file>] ' +
+  '[--backend <name>] [--statement <file>] [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--window-days <days>] ' +
+  '[--exclude-order <order-id>] [--keywords <keyword,...>] [--anti-keywords <keyword,...>] ' +
+  '[--matching greedy|global] [--allocation proportional|separate|none] [--lenient]\n' +
+  '       yarn start undo [<run-id>] [--transaction <transaction-id>] [--config <file>] [--backend <name>] ' +
+  '[--refresh-creds]';
+let firstArgIndex = 2;
+if (process.argv[2] === 'undo') {
+  options.undo = { runId: null, transactionId: null };
+  firstArgIndex++;
+}
+for (let i = firstArgIndex; i < process.argv.length; i++) {
   const arg = process.argv[i];
+  const getValue = (): string => {
+    const value = process.argv[++i];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${arg} ${USAGE_MESSAGE}`);
+    }
+    return value;
+  };
+  const getList = (): string[] => getValue().split(',');
   if (arg.startsWith('--')) {
     if (arg === '--dry-run') {
       options.isDryrun = true;
     } else if (arg === '--refresh-creds') {
       options.isRefreshCredentials = true;
+    } else if (arg === '--transaction' && options.undo) {
+      options.undo.transactionId = getValue();
+    } else if (arg === '--review') {
+      options.isReview = true;
+    } else if (arg === '--output') {
+      options.outputPath = getValue();
+    } else if (arg === '--format') {
+      const format = getValue();
+      if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Unknown format: ${format} ${USAGE_MESSAGE}`);
+      }
+      options.outputFormat = format as ExportFormat;
+    } else if (arg === '--report') {
+      options.reportPath = getValue();
+    } else if (arg === '--relink') {
+      options.isRelink = true;
+    } else if (arg === '--force') {
+      options.isForce = true;
+    } else if (arg === '--config') {
+      options.configPath = getValue();
+    } else if (arg === '--backend') {
+      options.configOverrides.backend = getValue();
+    } else if (arg === '--statement') {
+      const statementFiles = (options.configOverrides.statementFiles as string[] | undefined) ?? [];
+      options.configOverrides.statementFiles = [...statementFiles, getValue()];
+    } else if (arg === '--since') {
+      options.configOverrides.since = getValue();
+    } else if (arg === '--until') {
+      options.configOverrides.until = getValue();
+    } else if (arg === '--window-days') {
+      options.configOverrides.windowDays = getValue();
+    } else if (arg === '--exclude-order') {
+      const excludedOrders = (options.configOverrides.excludedOrders as string[] | undefined) ?? [];
+      options.configOverrides.excludedOrders = [...excludedOrders, getValue()];
+    } else if (arg === '--keywords') {
+      options.configOverrides.descriptionKeywords = getList();
+    } else if (arg === '--anti-keywords') {
+      options.configOverrides.descriptionAntiKeywords = getList();
+    } else if (arg === '--matching') {
+      options.configOverrides.matching = getValue();
+    } else if (arg === '--allocation') {
+      options.configOverrides.allocation = getValue();
+    } else if (arg === '--lenient') {
+      options.configOverrides.lenient = true;
     } else {
       throw new Error(`Unknown arg: ${arg} ${USAGE_MESSAGE}`);
     }
+  } else if (options.undo) {
+    if (options.undo.runId !== null) {
+      throw new Error(`Only one run id can be undone at a time. ${USAGE_MESSAGE}`);
+    }
+    options.undo.runId = arg;
   } else {
     options.amazonOrdersPaths.push(arg);
   }
 }
-if (options.amazonOrdersPaths.length === 0) {
+if (options.outputFormat && !options.outputPath) {
+  throw new Error(`--format requires --output. ${USAGE_MESSAGE}`);
+}
+if (options.undo) {
+  if (options.undo.runId === null && options.undo.transactionId === null) {
+    throw new Error(`No run id or transaction id provided to undo. ${USAGE_MESSAGE}`);
+  }
+} else if (options.amazonOrdersPaths.length === 0) {
   throw new Error(`No Amazon orders path(s) provided. ${USAGE_MESSAGE}`);
 }
 
 (async () => {
-  const mintClient = new MintClient();
+  const config = await loadConfig(options.configPath, options.configOverrides, !options.undo);
+  const bufferedStartDate = getBufferedStartDate(config);
+
+  const backend = createBackend(config);
   if (options.isRefreshCredentials) {
-    await mintClient.clearCredentials();
+    await backend.clearCredentials();
   }
-  const transactions = await mintClient.getTransactions(START_DATE);
+  const ledger = new LinkLedger(config.backend);
+  if (options.undo) {
+    await undo(backend, config.backend, ledger, options.undo);
+    return;
+  }
+  const transactions = await backend.getTransactions(config.startDate);
 
-  console.log('Mint Records');
+  console.log(`${backend.displayName} Records`);
   console.log('==============');
   logTransactions(transactions);
 
-  const amazonClient = new AmazonClient(options.amazonOrdersPaths);
-  const orders = await amazonClient.getOrders(BUFFERED_START_DATE);
+  const amazonClient = new AmazonClient(options.amazonOrdersPaths, config);
+  const orders = await amazonClient.getOrders(bufferedStartDate);
 
   console.log('Amazon Records');
   console.log('==============');
   logAmazonOrders(orders);
 
-  const { returns, remainingReturns } = await amazonClient.getReturns(orders, BUFFERED_START_DATE);
+  const { returns, remainingReturns } = await amazonClient.getReturns(orders, bufferedStartDate);
 
   console.log('Amazon Returns');
   console.log('==============');
   logAmazonReturns(returns);
 
+  console.log('Conflicting Amazon Exports');
+  console.log('==============');
+  logExportConflicts(amazonClient.conflicts);
+
+  if (config.lenient) {
+    console.log('Skipped Amazon Rows');
+    console.log('==============');
+    logSkippedRows(amazonClient.skippedRows);
+  }
+
+  const giftCardLedger = new GiftCardLedger();
+  await giftCardLedger.addActivity(await amazonClient.getGiftCardActivity());
+  const giftCardAllocation = await giftCardLedger.allocate(orders);
+
+  console.log('Gift Card Balances');
+  console.log('==============');
+  logGiftCardBalances(await giftCardLedger.getBalances());
+
   console.log('Unmatched Amazon Returns');
   console.log('==============');
   logAmazonReturns(remainingReturns);
 
-  const { joinedRecords, remainingMintTransactions, remainingAmazonOrders, remainingAmazonReturns } = Joiner.joinOrders(
-    transactions,
-    orders,
-    returns,
+  let candidates = { transactions, orders, returns };
+  if (options.isRelink) {
+    console.log('Ignoring previously linked transactions in relink mode');
+  } else {
+    const { linkedTransactions, ...unlinked } = await ledger.removeLinked(transactions, orders, returns);
+    candidates = unlinked;
+
+    console.log(`Previously Linked ${backend.displayName} Transactions (use --relink to match them again)`);
+    console.log('==============');
+    logTransactions(linkedTransactions);
+  }
+
+  const decisions = new ReviewDecisions(config.backend);
+  const rejectedPairs = await decisions.getRejectedPairs();
+  const {
+    joinedRecords: proposedRecords,
+    remainingMintTransactions,
+    remainingAmazonOrders,
+    remainingAmazonReturns,
+    ambiguousMatches,
+    truncatedSearches,
+  } = new Joiner(config, new Categorizer(config, transactions), rejectedPairs).joinOrders(
+    candidates.transactions,
+    candidates.orders,
+    candidates.returns,
+    giftCardAllocation,
   );
 
+  let joinedRecords = proposedRecords;
+
   console.log('Joined Records');
   console.log('==============');
   logJoinedRecords(joinedRecords);
 
-  console.log('Remaining Mint Transactions');
+  console.log('Uncategorized Items');
+  console.log('==============');
+  logUncategorizedItems(joinedRecords);
+
+  if (config.matching === 'global') {
+    console.log('Ambiguous Matches (left unmatched)');
+    console.log('==============');
+    logAmbiguousMatches(ambiguousMatches);
+  }
+
+  console.log('Searches Stopped at a Limit (raise subsetTimeLimitMs to search further)');
+  console.log('==============');
+  logTruncatedSearches([...amazonClient.truncatedSearches, ...truncatedSearches]);
+
+  console.log('Previously Rejected Matches (left out of matching)');
+  console.log('==============');
+  logRejectedPairs(
+    rejectedPairs.filter(({ mintTransactionId }) => transactions.some(({ id }) => id === mintTransactionId)),
+  );
+
+  console.log(`Remaining ${backend.displayName} Transactions`);
   console.log('==============');
   logTransactions(remainingMintTransactions);
 
   console.log('Remaining Amazon Orders');
   console.log('==============');
-  logAmazonOrders(remainingAmazonOrders.filter((order) => order.orderDate.getTime() >= START_DATE.getTime()));
+  logAmazonOrders(remainingAmazonOrders.filter((order) => isInDateRange(config, order.orderDate)));
 
   console.log('Remaining Amazon Returns');
   console.log('==============');
-  logAmazonReturns(
-    remainingAmazonReturns.filter((returnRecord) => returnRecord.returnDate.getTime() >= START_DATE.getTime()),
-  );
+  logAmazonReturns(remainingAmazonReturns.filter((returnRecord) => isInDateRange(config, returnRecord.returnDate)));
+
+  if (options.isReview) {
+    const reviewer = new Reviewer(config, transactions, orders, decisions);
+    const approvedRecords = await reviewer.review(joinedRecords.filter(({ isUnmodified }) => !isUnmodified));
+    joinedRecords = [...joinedRecords.filter(({ isUnmodified }) => isUnmodified), ...approvedRecords];
+  }
+
+  const results: RunResults = {
+    transactions,
+    orders,
+    joinedRecords,
+    remainingTransactions: remainingMintTransactions,
+    remainingOrders: remainingAmazonOrders.filter((order) => isInDateRange(config, order.orderDate)),
+    unmatchedReturns: [
+      ...remainingReturns,
+      ...remainingAmazonReturns.filter((returnRecord) => isInDateRange(config, returnRecord.returnDate)),
+    ],
+  };
+  if (options.outputPath) {
+    const format = options.outputFormat ?? getFormatFromFile(options.outputPath) ?? 'csv';
+    await exportResults(results, format, options.outputPath);
+    console.log(`Exported results to ${options.outputPath} as ${format.toUpperCase()}`);
+  }
+  if (options.reportPath) {
+    await writeReport(results, config, options.reportPath);
+    console.log(`Wrote report to ${options.reportPath}`);
+  }
 
   if (options.isDryrun) {
-    console.log('Not updating Mint transactions in dryrun mode');
+    console.log(`Not updating ${backend.displayName} transactions in dryrun mode`);
     console.log(`${joinedRecords.filter(({ isUnmodified }) => !isUnmodified).length} records would have been updated.`);
   } else {
-    console.log('Updating Mint Transactions...');
-    for (const joinedRecord of joinedRecords) {
-      if (joinedRecord.isUnmodified) {
-        continue;
+    await giftCardLedger.save();
+    // Records the backend cannot write are neither written nor journaled
+    const unwritableReasons = new Map<JoinedRecord, string>();
+    for (const joinedRecord of joinedRecords.filter(({ isUnmodified }) => !isUnmodified)) {
+      const transaction = transactions.find(({ id }) => id === joinedRecord.mintTransactionId)!;
+      const reason = backend.getUnwritableReason?.(transaction);
+      if (reason) {
+        unwritableReasons.set(joinedRecord, reason);
       }
-      await mintClient.updateTransaction(joinedRecord);
     }
-  }
-})();
+    const journal = RunJournal.create(config.backend);
+    console.log(`Updating ${backend.displayName} Transactions (run ${journal.runId})...`);
+    const linkedRecords: JoinedRecord[] = [];
+    const updateResults: UpdateResult[] = [...unwritableReasons].map(([joinedRecord, reason]) => ({
+      joinedRecord,
+      status: 'skipped',
+      error: new Error(reason),
+    }));
+    // After rejected credentials every other update would fail the same way, so they are skipped
+    let fatalError: Error | null = null;
+    try {
+      for (const joinedRecord of joinedRecords) {
+        if (joinedRecord.isUnmodified) {
+          linkedRecords.push(joinedRecord);
+          continue;
+        }
+        if (unwritableReasons.has(joinedRecord)) {
+          continue;
+        }
+        if (fatalError) {
+          updateResults.push({ joinedRecord, status: 'skipped', error: fatalError });
+          continue;
+        }
+        let transaction = transactions.find(({ id }) => id === joinedRecord.mintTransactionId)!;
+        try {
+          if (backend.getCurrentTransaction) {
+            const currentTransaction = await backend.getCurrentTransaction(transaction);
+            const changes = getTransactionChanges(transaction, currentTransaction);
+            if (changes.length > 0 && !options.isForce) {
+              const error = new Error(`Changed since it was read: ${changes.join('; ')}. Use --force to overwrite it.`);
+              updateResults.push({ joinedRecord, status: 'conflict', error });
+              continue;
+            }
+            // Undo restores the transaction as it was right before the update
+            transaction = currentTransaction ?? transaction;
+          }
+          // The snapshot is kept when the update fails, since a failed write may still have been partly applied
+          await journal.recordSnapshot(transaction, joinedRecord);
+          await backend.updateTransaction(joinedRecord);
+          linkedRecords.push(joinedRecord);
+          updateResults.push({ joinedRecord, status: 'updated', error: null });
+        } catch (e) {
+          if (!(e instanceof Error)) {
+            throw e;
+          }
+          updateResults.push({ joinedRecord, status: 'failed', error: e });
+          if (e instanceof MintAuthError) {
+            fatalError = e;
+          }
+        }
+      }
+    } finally {
+      await ledger.recordLinks(linkedRecords);
+    }
 
-function formatNumber(value: number): string {
-  return value.toFixed(2).padStart(7);
-}
+    console.log('Update Summary');
+    console.log('==============');
+    logUpdateResults(updateResults);
 
-function logTransactions(transactions: Transaction[]) {
-  if (transactions.length === 0) {
-    console.log('NONE');
-  }
-  for (const transaction of transactions) {
-    console.log(transaction.date, formatNumber(transaction.amount));
-    for (const childTransaction of transaction.children) {
-      console.log('    ', formatNumber(childTransaction.amount), childTransaction.description.substring(0, 140));
+    if (journal.getEntries().length > 0) {
+      console.log(`To revert these updates run: yarn start undo ${journal.runId}`);
+    }
+    if (updateResults.some(({ status }) => status !== 'updated')) {
+      console.log('Run again to retry the records that were not updated.');
+      process.exitCode = 1;
     }
   }
-}
-
-function logAmazonOrders(orders: Order[]) {
-  if (orders.length === 0) {
-    console.log('NONE');
+})().catch((e) => {
+  if (e instanceof ConfigError) {
+    console.error(`Invalid configuration: ${e.message}`);
+    process.exit(1);
   }
-  for (const order of orders) {
-    console.log(order.orderDate, order.orderId);
-    for (const shipment of order.shipments) {
-      console.log('  ', shipment.shipmentDate, formatNumber(shipment.amount), shipment.trackingId);
-      for (const item of shipment.items) {
-        console.log('    ', formatNumber(item.amount), item.description.substring(0, 140));
-      }
-    }
+  if (e instanceof MintApiError) {
+    console.error(e.message);
+    process.exit(1);
   }
-}
+  if (e instanceof AmazonCsvError) {
+    console.error(`Invalid Amazon export: ${e.message}. Use --lenient to skip rows that cannot be read.`);
+    process.exit(1);
+  }
+  throw e;
+});
 
-function logAmazonReturns(returns: Return[]) {
-  if (returns.length === 0) {
-    console.log('NONE');
+async function undo(backend: Backend, backendName: string, ledger: LinkLedger, { runId, transactionId }: UndoOptions) {
+  let journal: RunJournal | null;
+  if (runId !== null) {
+    journal = await RunJournal.load(runId);
+  } else {
+    journal = await RunJournal.findLatestRunForTransaction(transactionId!);
   }
-  for (const returnRecord of returns) {
-    console.log(returnRecord.returnDate, formatNumber(returnRecord.amount), returnRecord.orderId);
-    for (const item of returnRecord.items) {
-      console.log('  ', formatNumber(item.amount), item.description.substring(0, 140));
-    }
+  const entries = journal?.getEntries(transactionId ?? undefined) ?? [];
+  if (!journal || entries.length === 0) {
+    console.log('Nothing to undo');
+    return;
   }
-}
 
-function logJoinedRecords(joinedRecords: JoinedRecord[]) {
-  if (joinedRecords.length === 0) {
-    console.log('NONE');
+  if (journal.backend !== backendName) {
+    throw new Error(`Run ${journal.runId} updated ${journal.backend} transactions but the backend is ${backendName}`);
   }
-  for (const record of joinedRecords) {
-    if (!record.isUnmodified) {
-      console.log('[MODIFIED]');
-    }
-    console.log(record.orderDate, formatNumber(record.amount), record.orderId, record.mintTransactionId);
-    for (const item of record.items) {
-      console.log('    ', formatNumber(item.amount), item.description);
+
+  if (backend.getUnwritableReason) {
+    const earliestDate = new Date(Math.min(...entries.map(({ before }) => new Date(before.date).getTime())));
+    const currentTransactions = await backend.getTransactions(earliestDate);
+    const reasons = entries
+      .map(({ transactionId }) => currentTransactions.find(({ id }) => id === transactionId))
+      .map((transaction) => (transaction ? backend.getUnwritableReason!(transaction) : null))
+      .filter(Boolean);
+    if (reasons.length > 0) {
+      throw new Error(`Unable to undo run ${journal.runId}, nothing was restored:\n${reasons.join('\n')}`);
     }
   }
+
+  console.log(`Undoing ${entries.length} update(s) from run ${journal.runId}...`);
+  for (const entry of [...entries].reverse()) {
+    const transaction = toTransaction(entry.before);
+    await backend.restoreTransaction(transaction);
+    await journal.markUndone(entry);
+    await ledger.removeLinks([entry.transactionId]);
+    logTransactions([transaction]);
+  }
 }
@@ -0,0 +1,175 @@
+import { Transaction, UpdateResult } from './Backend';
+import { ExportConflict, Order, Return } from './AmazonClient';
+import { AmbiguousMatch, JoinedRecord } from './Joiner';
+import { AmazonCsvError } from './amazonCsv';
+import { RejectedPair } from './ReviewDecisions';
+
+export function formatNumber(value: number): string {
+  return value.toFixed(2).padStart(7);
+}
+
+export function logTransactions(transactions: Transaction[]) {
+  if (transactions.length === 0) {
+    console.log('NONE');
+  }
+  for (const transaction of transactions) {
+    console.log(transaction.date, formatNumber(transaction.amount));
+    for (const childTransaction of transaction.children) {
+      console.log('    ', formatNumber(childTransaction.amount), childTransaction.description.substring(0, 140));
+    }
+  }
+}
+
+export function logAmazonOrders(orders: Order[]) {
+  if (orders.length === 0) {
+    console.log('NONE');
+  }
+  for (const order of orders) {
+    console.log(order.orderDate, order.orderId, order.account, order.source);
+    for (const shipment of order.shipments) {
+      console.log('  ', shipment.shipmentDate ?? 'Not shipped', formatNumber(shipment.amount), shipment.trackingId);
+      for (const item of shipment.items) {
+        console.log('    ', formatNumber(item.amount), item.description.substring(0, 140));
+      }
+    }
+  }
+}
+
+export function logAmazonReturns(returns: Return[]) {
+  if (returns.length === 0) {
+    console.log('NONE');
+  }
+  for (const returnRecord of returns) {
+    console.log(returnRecord.returnDate, formatNumber(returnRecord.amount), returnRecord.orderId, returnRecord.account);
+    for (const item of returnRecord.items) {
+      console.log('  ', formatNumber(item.amount), item.description.substring(0, 140));
+    }
+  }
+}
+
+export function logJoinedRecords(joinedRecords: JoinedRecord[]) {
+  if (joinedRecords.length === 0) {
+    console.log('NONE');
+  }
+  for (const record of joinedRecords) {
+    if (!record.isUnmodified) {
+      console.log('[MODIFIED]');
+    }
+    console.log(
+      record.orderDate,
+      formatNumber(record.amount),
+      record.orderId,
+      record.account,
+      record.mintTransactionId,
+    );
+    for (const item of record.items) {
+      console.log(
+        '    ',
+        formatNumber(item.amount),
+        item.description,
+        ...(item.category ? [`[${item.category}]`] : []),
+      );
+    }
+  }
+}
+
+export function logAmbiguousMatches(ambiguousMatches: AmbiguousMatch[]) {
+  if (ambiguousMatches.length === 0) {
+    console.log('NONE');
+  }
+  for (const { orderIds, transactionIds } of ambiguousMatches) {
+    console.log('Orders', orderIds.join(', '), 'could match transactions', transactionIds.join(', '));
+  }
+}
+
+export function logRejectedPairs(rejectedPairs: RejectedPair[]) {
+  if (rejectedPairs.length === 0) {
+    console.log('NONE');
+  }
+  for (const { mintTransactionId, orderId, rejectedAt } of rejectedPairs) {
+    console.log('Order', orderId, 'with transaction', mintTransactionId, 'rejected at', rejectedAt);
+  }
+}
+
+/**
+ * List the searches that stopped at their time or size limits, whose results may be incomplete
+ */
+export function logTruncatedSearches(searches: string[]) {
+  if (searches.length === 0) {
+    console.log('NONE');
+  }
+  for (const search of searches) {
+    console.log(search);
+  }
+}
+
+export function logSkippedRows(skippedRows: AmazonCsvError[]) {
+  if (skippedRows.length === 0) {
+    console.log('NONE');
+  }
+  for (const skippedRow of skippedRows) {
+    console.log(skippedRow.message);
+  }
+}
+
+export function logExportConflicts(conflicts: ExportConflict[]) {
+  if (conflicts.length === 0) {
+    console.log('NONE');
+  }
+  for (const { orderId, olderExport, newerExport, differences } of conflicts) {
+    console.log(`Order ${orderId}: using ${newerExport} over ${olderExport}`);
+    for (const difference of differences) {
+      console.log('    ', difference);
+    }
+  }
+}
+
+export function logGiftCardBalances(balances: Map<string, number>) {
+  if (balances.size === 0) {
+    console.log('NONE');
+  }
+  for (const [account, balance] of balances) {
+    console.log(formatNumber(balance), account);
+  }
+}
+
+/**
+ * List the joined items that no category rule or earlier categorization matched, for review
+ */
+export function logUncategorizedItems(joinedRecords: JoinedRecord[]) {
+  const uncategorizedRecords = joinedRecords.filter(({ items }) => items.some(({ category }) => !category));
+  if (uncategorizedRecords.length === 0) {
+    console.log('NONE');
+  }
+  for (const joinedRecord of uncategorizedRecords) {
+    console.log(joinedRecord.orderDate, joinedRecord.orderId, joinedRecord.mintTransactionId);
+    for (const item of joinedRecord.items.filter(({ category }) => !category)) {
+      console.log('    ', formatNumber(item.amount), item.description.substring(0, 140));
+    }
+  }
+}
+
+/**
+ * List the result of each update written in the run, followed by the totals
+ */
+export function logUpdateResults(results: UpdateResult[]) {
+  if (results.length === 0) {
+    console.log('NONE');
+  }
+  for (const { joinedRecord, status, error } of results) {
+    console.log(
+      status.toUpperCase().padEnd(8),
+      joinedRecord.orderDate,
+      joinedRecord.orderId,
+      joinedRecord.mintTransactionId,
+      formatNumber(joinedRecord.amount),
+      error?.message ?? '',
+    );
+  }
+  const count = (status: UpdateResult['status']) => results.filter((result) => result.status === status).length;
+  console.log(
+    `${count('updated')} updated, ${count('failed')} failed, ${count('conflict')} conflicts, ${count(
+      'skipped',
+    )} skipped`,
+  );
+}
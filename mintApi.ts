@@ -0,0 +1,112 @@
+import { AxiosError } from 'axios';
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * A Mint API request that failed, with the HTTP status when Mint responded
+ */
+export class MintApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Mint rejected the credentials, even after logging in again
+ */
+export class MintAuthError extends MintApiError {}
+
+/**
+ * Mint kept rate limiting a request after every retry
+ */
+export class MintRateLimitError extends MintApiError {}
+
+/**
+ * Mint rejected the data sent, e.g. split amounts that do not add up to the transaction
+ */
+export class MintValidationError extends MintApiError {}
+
+/**
+ * The transaction was changed or removed in Mint since it was read
+ */
+export class MintConflictError extends MintApiError {}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a failed request may succeed if it is sent again: network errors, rate limiting and server errors
+ */
+export function isTransientError(e: unknown): boolean {
+  if (!(e instanceof AxiosError) || e.code === AxiosError.ERR_CANCELED) {
+    return false;
+  }
+  const status = e.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Get how long to wait before retrying a request: as long as Mint asks for in a Retry-After header, otherwise a random
+ * delay of up to double the previous attempt's (exponential backoff with full jitter), so that retries spread out
+ */
+export function getRetryDelay(e: unknown, attempt: number): number {
+  const retryAfter = Number(e instanceof AxiosError ? e.response?.headers['retry-after'] : undefined);
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.random() * Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Convert a failed request to the MintApiError for its status, so callers can tell failures apart
+ */
+export function toMintApiError(e: unknown, description: string): unknown {
+  if (!(e instanceof AxiosError)) {
+    return e;
+  }
+  if (!e.response) {
+    return new MintApiError(`${description} failed: ${e.message}`, null);
+  }
+  const { status, statusText, data } = e.response;
+  const details = (typeof data === 'string' ? data : JSON.stringify(data ?? '')).substring(0, 500);
+  const message = `${description} failed with ${status} ${statusText}` + (details ? `: ${details}` : '');
+  if (status === 401 || status === 403) {
+    return new MintAuthError(message, status);
+  }
+  if (status === 429) {
+    return new MintRateLimitError(message, status);
+  }
+  if (status === 404 || status === 409 || status === 412) {
+    return new MintConflictError(message, status);
+  }
+  if (status === 400 || status === 422) {
+    return new MintValidationError(message, status);
+  }
+  return new MintApiError(message, status);
+}
+
+/**
+ * Spaces out requests so that no more than the given number start per second
+ */
+export class RateLimiter {
+  private nextRequestTime = 0;
+
+  constructor(private requestsPerSecond: number) {}
+
+  /**
+   * Wait until the next request may start
+   */
+  async wait() {
+    const now = Date.now();
+    const requestTime = Math.max(now, this.nextRequestTime);
+    this.nextRequestTime = requestTime + 1000 / this.requestsPerSecond;
+    if (requestTime > now) {
+      await sleep(requestTime - now);
+    }
+  }
+}
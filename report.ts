@@ -0,0 +1,260 @@
+import { writeFile } from 'fs/promises';
+import { Config } from './Config';
+import { JoinedRecord, getSyntheticItemType } from './Joiner';
+import { RunResults } from './exporters';
+import { getTotalAmount } from './utils';
+
+const STYLE = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; margin: 2em; color: #222; }
+  h1, h2 { font-weight: 600; }
+  table { border-collapse: collapse; margin-bottom: 2em; }
+  th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f4f4f4; }
+  table.sortable th { cursor: pointer; user-select: none; }
+  table.sortable th::after { content: ' \\2195'; color: #aaa; }
+  td.amount { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  tr.synthetic, li.synthetic { background: #fff3cd; }
+  .badge { display: inline-block; padding: 0 6px; border-radius: 8px; font-size: 0.8em; background: #eee; }
+  .badge.modified { background: #cfe2ff; }
+  .badge.synthetic { background: #ffe69c; }
+  .badge.uncategorized { background: #f8d7da; }
+  .record { display: flex; gap: 2em; border-top: 1px solid #ccc; padding: 1em 0; }
+  .record > div { flex: 1; }
+  .record h3 { margin-top: 0; }
+`;
+
+/**
+ * Sorts a table by the clicked column, numerically when every value in the column is a number
+ */
+const SCRIPT = `
+  document.querySelectorAll('table.sortable th').forEach((th) => {
+    th.addEventListener('click', () => {
+      const table = th.closest('table');
+      const tbody = table.querySelector('tbody');
+      const ascending = th.dataset.order !== 'asc';
+      table.querySelectorAll('th').forEach((other) => delete other.dataset.order);
+      th.dataset.order = ascending ? 'asc' : 'desc';
+      const index = Array.from(th.parentNode.children).indexOf(th);
+      const rows = Array.from(tbody.querySelectorAll('tr'));
+      const values = rows.map((row) => row.children[index].textContent.trim());
+      const isNumeric = values.every((value) => value === '' || !isNaN(Number(value)));
+      rows
+        .map((row, i) => ({ row, value: values[i] }))
+        .sort((a, b) => {
+          const result = isNumeric ? Number(a.value) - Number(b.value) : a.value.localeCompare(b.value);
+          return ascending ? result : -result;
+        })
+        .forEach(({ row }) => tbody.appendChild(row));
+    });
+  });
+`;
+
+function escapeHtml(value: string | number): string {
+  return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function formatAmount(amount: number): string {
+  return `<td class="amount">${amount.toFixed(2)}</td>`;
+}
+
+function renderTable(headers: string[], rows: { cells: string[]; className?: string }[]): string {
+  if (rows.length === 0) {
+    return '<p>None</p>';
+  }
+  return `
+    <table class="sortable">
+      <thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${rows.map(({ cells, className }) => `<tr class="${className ?? ''}">${cells.join('')}</tr>`).join('\n')}
+      </tbody>
+    </table>`;
+}
+
+function getSyntheticTypes(record: JoinedRecord, config: Config) {
+  return new Set(record.items.map((item) => getSyntheticItemType(item, config)).filter(Boolean));
+}
+
+function renderRecordDetails(record: JoinedRecord, results: RunResults, config: Config): string {
+  const transaction = results.transactions.find(({ id }) => id === record.mintTransactionId);
+  const trackingIds = record.items.map(({ trackingId }) => trackingId);
+  const order = results.orders.find(({ orderId }) => orderId === record.orderId);
+  const shipments = order?.shipments.filter(({ trackingId }) => trackingIds.includes(trackingId)) ?? [];
+
+  const transactionHtml = transaction
+    ? `
+      <p>${toDateString(transaction.date)} &middot; ${transaction.amount.toFixed(2)}</p>
+      <ul>${transaction.children
+        .map((child) => `<li>${child.amount.toFixed(2)} ${escapeHtml(child.description)}</li>`)
+        .join('')}</ul>`
+    : '<p>Transaction not found</p>';
+
+  const amazonHtml = record.amazonReturn
+    ? `<p>Return on ${toDateString(record.amazonReturn.returnDate)}</p>
+       <ul><li>${record.amazonReturn.amount.toFixed(2)} refund</li></ul>`
+    : shipments
+        .map((shipment) => {
+          const shipmentDate = shipment.shipmentDate ? toDateString(shipment.shipmentDate) : 'not shipped';
+          return `
+            <p>Shipment ${escapeHtml(shipment.trackingId)} &middot; ${shipmentDate} &middot;
+              ${shipment.amount.toFixed(2)}</p>
+            <ul>${shipment.items
+              .map((item) => `<li>${item.amount.toFixed(2)} ${escapeHtml(item.description)}</li>`)
+              .join('')}</ul>`;
+        })
+        .join('');
+
+  const splitHtml = record.items
+    .map((item) => {
+      const syntheticType = getSyntheticItemType(item, config);
+      const badge = syntheticType ? ` <span class="badge synthetic">${syntheticType}</span>` : '';
+      const categoryBadge = item.category
+        ? ` <span class="badge">${escapeHtml(item.category)}</span>`
+        : ' <span class="badge uncategorized">uncategorized</span>';
+      const description = `${escapeHtml(item.description)}${badge}${categoryBadge}`;
+      return `<li class="${syntheticType ? 'synthetic' : ''}">${item.amount.toFixed(2)} ${description}</li>`;
+    })
+    .join('');
+
+  return `
+    <div class="record" id="record-${escapeHtml(record.mintTransactionId)}">
+      <div>
+        <h3>Transaction ${escapeHtml(record.mintTransactionId)} ${
+          record.isUnmodified ? '' : '<span class="badge modified">modified</span>'
+        }</h3>
+        ${transactionHtml}
+      </div>
+      <div>
+        <h3>Amazon Order ${escapeHtml(record.orderId)} (${toDateString(record.orderDate)})</h3>
+        <p>Account ${escapeHtml(record.account)}</p>
+        ${amazonHtml}
+        <h4>Split</h4>
+        <ul>${splitHtml}</ul>
+      </div>
+    </div>`;
+}
+
+/**
+ * Render the run results as a single self-contained HTML page
+ */
+export function renderReport(results: RunResults, config: Config): string {
+  const { joinedRecords, remainingTransactions, remainingOrders, unmatchedReturns } = results;
+  const modifiedRecords = joinedRecords.filter(({ isUnmodified }) => !isUnmodified);
+  const giftCardRecords = joinedRecords.filter((record) => getSyntheticTypes(record, config).has('gift-card'));
+  const balanceRecords = joinedRecords.filter((record) => getSyntheticTypes(record, config).has('balance-adjust'));
+  const uncategorizedRecords = joinedRecords.filter(({ items }) => items.some(({ category }) => !category));
+  const remainingOrderAmount = getTotalAmount(remainingOrders.flatMap(({ shipments }) => shipments));
+
+  const summaryRows = [
+    ['Matched records', joinedRecords.length, getTotalAmount(joinedRecords)],
+    ['Modified records', modifiedRecords.length, getTotalAmount(modifiedRecords)],
+    ['Gift card adjusted records', giftCardRecords.length, getTotalAmount(giftCardRecords)],
+    ['Balance adjusted records', balanceRecords.length, getTotalAmount(balanceRecords)],
+    ['Records with uncategorized items', uncategorizedRecords.length, getTotalAmount(uncategorizedRecords)],
+    ['Unmatched transactions', remainingTransactions.length, getTotalAmount(remainingTransactions)],
+    ['Unmatched orders', remainingOrders.length, remainingOrderAmount],
+    ['Unmatched returns', unmatchedReturns.length, getTotalAmount(unmatchedReturns)],
+  ] as const;
+
+  const joinedRows = joinedRecords.map((record) => {
+    const syntheticTypes = [...getSyntheticTypes(record, config)];
+    const transaction = results.transactions.find(({ id }) => id === record.mintTransactionId);
+    const transactionId = escapeHtml(record.mintTransactionId);
+    return {
+      className: syntheticTypes.length > 0 ? 'synthetic' : '',
+      cells: [
+        `<td>${toDateString(transaction?.date ?? record.orderDate)}</td>`,
+        `<td><a href="#record-${transactionId}">${transactionId}</a></td>`,
+        `<td>${escapeHtml(record.orderId)}</td>`,
+        `<td>${escapeHtml(record.account)}</td>`,
+        formatAmount(record.amount),
+        `<td>${record.items.length}</td>`,
+        `<td>${record.isUnmodified ? 'unchanged' : 'modified'}</td>`,
+        `<td>${syntheticTypes.join(', ')}</td>`,
+      ],
+    };
+  });
+
+  const transactionRows = remainingTransactions.map((transaction) => ({
+    cells: [
+      `<td>${toDateString(transaction.date)}</td>`,
+      `<td>${escapeHtml(transaction.id)}</td>`,
+      formatAmount(transaction.amount),
+      `<td>${escapeHtml(transaction.children.map(({ description }) => description).join('; '))}</td>`,
+    ],
+  }));
+
+  const orderRows = remainingOrders.flatMap((order) =>
+    order.shipments.map((shipment) => ({
+      cells: [
+        `<td>${toDateString(order.orderDate)}</td>`,
+        `<td>${escapeHtml(order.orderId)}</td>`,
+        `<td>${escapeHtml(order.account)}</td>`,
+        `<td>${escapeHtml(shipment.trackingId)}</td>`,
+        formatAmount(shipment.amount),
+        `<td>${escapeHtml(shipment.items.map(({ description }) => description).join('; '))}</td>`,
+      ],
+    })),
+  );
+
+  const returnRows = unmatchedReturns.map((returnRecord) => ({
+    cells: [
+      `<td>${toDateString(returnRecord.returnDate)}</td>`,
+      `<td>${escapeHtml(returnRecord.orderId)}</td>`,
+      `<td>${escapeHtml(returnRecord.account)}</td>`,
+      formatAmount(returnRecord.amount),
+      `<td>${escapeHtml(returnRecord.items.map(({ description }) => description).join('; '))}</td>`,
+    ],
+  }));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Amazon Reconciliation Report</title>
+  <style>${STYLE}</style>
+</head>
+<body>
+  <h1>Amazon Reconciliation Report</h1>
+  <p>${toDateString(config.startDate)} to ${config.endDate ? toDateString(config.endDate) : 'now'}</p>
+
+  <h2>Summary</h2>
+  <table>
+    <thead><tr><th></th><th>Count</th><th>Amount</th></tr></thead>
+    <tbody>
+      ${summaryRows
+        .map(([label, count, amount]) => `<tr><td>${label}</td><td>${count}</td>${formatAmount(amount)}</tr>`)
+        .join('\n')}
+    </tbody>
+  </table>
+
+  <h2>Joined Records</h2>
+  ${renderTable(
+    ['Date', 'Transaction', 'Order', 'Account', 'Amount', 'Items', 'Status', 'Synthetic Lines'],
+    joinedRows,
+  )}
+
+  <h2>Unmatched Transactions</h2>
+  ${renderTable(['Date', 'Transaction', 'Amount', 'Description'], transactionRows)}
+
+  <h2>Unmatched Orders</h2>
+  ${renderTable(['Order Date', 'Order', 'Account', 'Tracking Id', 'Amount', 'Items'], orderRows)}
+
+  <h2>Unmatched Returns</h2>
+  ${renderTable(['Return Date', 'Order', 'Account', 'Amount', 'Items'], returnRows)}
+
+  <h2>Record Details</h2>
+  ${joinedRecords.map((record) => renderRecordDetails(record, results, config)).join('\n')}
+
+  <script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export async function writeReport(results: RunResults, config: Config, file: string) {
+  await writeFile(file, renderReport(results, config));
+}
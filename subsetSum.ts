@@ -0,0 +1,240 @@
+/**
+ * Bounded searches over groups of amounts, replacing enumeration of every subset (which is exponential in the number
+ * of candidates). Amounts are compared in integer cents.
+ */
+
+export interface SubsetSearchLimits {
+  /**
+   * Only the first subsetMaxItems candidates (in preference order) are searched
+   */
+  subsetMaxItems: number;
+  /**
+   * Largest group that will be returned. At most 30.
+   */
+  subsetMaxSize: number;
+  /**
+   * A single search gives up (finding nothing) after this long
+   */
+  subsetTimeLimitMs: number;
+  /**
+   * At most this many groups are generated by getSubsetsLargestFirst
+   */
+  subsetMaxGroups: number;
+}
+
+/**
+ * Which subset to return when several have the target sum:
+ * - earliest: the subset that uses the earliest candidates, i.e. the most preferred ones
+ * - largest/smallest: the subset with the most/fewest members, with ties going to the earliest candidates
+ */
+export type SubsetPreference = 'earliest' | 'largest' | 'smallest';
+
+export interface SubsetSearchOptions {
+  minSize?: number;
+  prefer?: SubsetPreference;
+}
+
+export interface SubsetSearchResult<T> {
+  /**
+   * The subset found, or null if there is none or the search stopped at a limit first
+   */
+  subset: T[] | null;
+  /**
+   * Whether the search stopped at subsetTimeLimitMs or its memory bound, so a subset may exist that was not found
+   */
+  isTruncated: boolean;
+}
+
+const MAX_SUBSET_SIZE = 30;
+// Bounds the memory of a single search; each state is an entry in a Map
+const MAX_STATES = 2_000_000;
+const TIME_CHECK_INTERVAL = 1024;
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function getHighestBit(mask: number): number {
+  return 31 - Math.clz32(mask);
+}
+
+function getLowestBit(mask: number): number {
+  return getHighestBit(mask & -mask);
+}
+
+/**
+ * Find a subset of the items whose amounts sum to the target
+ */
+export function findSubsetWithSum<T extends { amount: number }>(
+  items: T[],
+  target: number,
+  limits: SubsetSearchLimits,
+  options: SubsetSearchOptions = {},
+): SubsetSearchResult<T> {
+  return findSubsetWithSumBetween(items, target, target, limits, options);
+}
+
+/**
+ * Find a subset of the items whose amounts sum to between target and limit (inclusive, in either order), preferring
+ * the sum closest to target.
+ *
+ * This is a dynamic program over the sums reachable from each suffix of the items, recording (as a bit mask) which
+ * subset sizes can reach each sum. Sums that cannot be brought back into the range by the items before the suffix are
+ * pruned, so for same-signed amounts the state is bounded by the range in cents.
+ */
+export function findSubsetWithSumBetween<T extends { amount: number }>(
+  items: T[],
+  target: number,
+  limit: number,
+  limits: SubsetSearchLimits,
+  { minSize = 1, prefer = 'earliest' }: SubsetSearchOptions = {},
+): SubsetSearchResult<T> {
+  const candidates = items.slice(0, limits.subsetMaxItems);
+  const n = candidates.length;
+  const maxSize = Math.min(limits.subsetMaxSize, MAX_SUBSET_SIZE, n);
+  if (minSize > maxSize) {
+    return { subset: null, isTruncated: false };
+  }
+  const sizeMask = (2 ** (maxSize + 1) - 1) & ~(2 ** minSize - 1);
+  const allSizesMask = 2 ** (maxSize + 1) - 1;
+  const values = candidates.map(({ amount }) => toCents(amount));
+  const targetCents = toCents(target);
+  const lowestCents = Math.min(targetCents, toCents(limit));
+  const highestCents = Math.max(targetCents, toCents(limit));
+
+  // The range of sums the items before index i can contribute
+  const prefixMin = [0];
+  const prefixMax = [0];
+  for (let i = 0; i < n; i++) {
+    prefixMin.push(prefixMin[i] + Math.min(values[i], 0));
+    prefixMax.push(prefixMax[i] + Math.max(values[i], 0));
+  }
+
+  const deadline = Date.now() + limits.subsetTimeLimitMs;
+  let steps = 0;
+  let states = 1;
+  // reachable[i] maps each sum reachable using items i..n-1 to a bit mask of the subset sizes that reach it
+  const reachable: Map<number, number>[] = new Array(n + 1);
+  reachable[n] = new Map([[0, 1]]);
+  for (let i = n - 1; i >= 0; i--) {
+    const low = lowestCents - prefixMax[i];
+    const high = highestCents - prefixMin[i];
+    const next = new Map<number, number>();
+    for (const [sum, sizes] of reachable[i + 1]) {
+      if (++steps % TIME_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+        return { subset: null, isTruncated: true };
+      }
+      if (sum >= low && sum <= high) {
+        next.set(sum, (next.get(sum) ?? 0) | sizes);
+      }
+      const sumWithItem = sum + values[i];
+      const sizesWithItem = (sizes << 1) & allSizesMask;
+      if (sizesWithItem !== 0 && sumWithItem >= low && sumWithItem <= high) {
+        next.set(sumWithItem, (next.get(sumWithItem) ?? 0) | sizesWithItem);
+      }
+    }
+    reachable[i] = next;
+    states += next.size;
+    if (states > MAX_STATES) {
+      return { subset: null, isTruncated: true };
+    }
+  }
+
+  let sum: number | null = null;
+  for (const [reachableSum, reachableSizes] of reachable[0]) {
+    const isInRange = reachableSum >= lowestCents && reachableSum <= highestCents && (reachableSizes & sizeMask) !== 0;
+    if (isInRange && (sum === null || Math.abs(reachableSum - targetCents) < Math.abs(sum - targetCents))) {
+      sum = reachableSum;
+    }
+  }
+  if (sum === null) {
+    return { subset: null, isTruncated: false };
+  }
+  let sizes = reachable[0].get(sum)! & sizeMask;
+  if (prefer === 'largest') {
+    sizes = 1 << getHighestBit(sizes);
+  } else if (prefer === 'smallest') {
+    sizes = 1 << getLowestBit(sizes);
+  }
+
+  // Walk forward, taking each item whenever a subset of an allowed size can still be completed with it
+  const subset: T[] = [];
+  let remaining = sum;
+  for (let i = 0; i < n; i++) {
+    const sizesWithItem = (reachable[i + 1].get(remaining - values[i]) ?? 0) & (sizes >>> 1);
+    if (sizesWithItem !== 0) {
+      subset.push(candidates[i]);
+      remaining -= values[i];
+      sizes = sizesWithItem;
+    } else {
+      sizes &= reachable[i + 1].get(remaining) ?? 0;
+    }
+  }
+  return { subset, isTruncated: false };
+}
+
+function countCombinations(n: number, k: number): number {
+  let count = 1;
+  for (let i = 1; i <= k; i++) {
+    count = (count * (n - k + i)) / i;
+  }
+  return Math.round(count);
+}
+
+/**
+ * Choose which subset sizes to generate so at most maxGroups subsets are generated. The sizes with the fewest subsets
+ * (the largest and smallest groups) are chosen first, so a long list skips the middle sizes rather than never reaching
+ * the small groups.
+ */
+function getGroupSizes(n: number, maxSize: number, maxGroups: number): number[] {
+  const sizes = new Array(maxSize)
+    .fill(null)
+    .map((_, i) => i + 1)
+    .sort((a, b) => countCombinations(n, a) - countCombinations(n, b) || b - a);
+  const chosenSizes: number[] = [];
+  let total = 0;
+  for (const size of sizes) {
+    total += countCombinations(n, size);
+    if (total > maxGroups) {
+      break;
+    }
+    chosenSizes.push(size);
+  }
+  return chosenSizes.sort((a, b) => b - a);
+}
+
+/**
+ * Generate non-empty subsets of the array, largest first and in order of the earliest members within each size. Sizes
+ * are skipped when generating every subset would exceed subsetMaxGroups, and generation stops after subsetTimeLimitMs.
+ */
+export function getSubsetsLargestFirst<T>(
+  array: T[],
+  limits: SubsetSearchLimits,
+): { subsets: T[][]; isTruncated: boolean } {
+  const n = Math.min(array.length, limits.subsetMaxItems);
+  const deadline = Date.now() + limits.subsetTimeLimitMs;
+  const subsets: T[][] = [];
+  for (const size of getGroupSizes(n, Math.min(n, limits.subsetMaxSize), limits.subsetMaxGroups)) {
+    const indexes = new Array(size).fill(null).map((_, i) => i);
+    while (true) {
+      if (Date.now() > deadline) {
+        return { subsets, isTruncated: true };
+      }
+      subsets.push(indexes.map((index) => array[index]));
+
+      // Advance to the next combination of indexes in lexicographic order
+      let i = size - 1;
+      while (i >= 0 && indexes[i] === n - size + i) {
+        i--;
+      }
+      if (i < 0) {
+        break;
+      }
+      indexes[i]++;
+      for (let j = i + 1; j < size; j++) {
+        indexes[j] = indexes[j - 1] + 1;
+      }
+    }
+  }
+  return { subsets, isTruncated: false };
+}
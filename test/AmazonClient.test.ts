@@ -0,0 +1,175 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import AmazonClient, { Item, Return } from '../AmazonClient';
+import { RawConfig } from '../Config';
+import { loadTestConfig } from './stubServer';
+
+const START_DATE = new Date('2023-03-01');
+const ORDER_HEADER =
+  'Website,Order ID,Order Date,Unit Price,Unit Price Tax,Shipping Charge,Total Discounts,Total Owed,Quantity,' +
+  'Payment Instrument Type,Ship Date,Carrier Name & Tracking Number,Product Name';
+const RETURN_HEADER = 'OrderID,ReversalID,RefundCompletionDate,AmountRefunded,Title';
+
+function getOrderRow(orderId: string, orderDate: string, productName: string, price: number, tax: number): string {
+  const total = (price + tax).toFixed(2);
+  return (
+    `Amazon.com,${orderId},${orderDate},${price},${tax},0,0,${total},1,Visa - 1234,` +
+    `${orderDate},UPS(1Z${orderId}),${productName}`
+  );
+}
+
+describe('AmazonClient', () => {
+  let root: string;
+
+  /**
+   * Write an export directory with the order and return rows, in the directories Amazon puts them in
+   */
+  async function writeExport(name: string, orderRows: string[], returnRows: string[]): Promise<string> {
+    const path = join(root, name);
+    for (const [file, header, rows] of [
+      ['Retail.OrderHistory.1', ORDER_HEADER, orderRows],
+      ['Retail.OrdersReturned.Payments.1', RETURN_HEADER, returnRows],
+    ] as const) {
+      await mkdir(join(path, file), { recursive: true });
+      await writeFile(join(path, file, `${file}.csv`), [header, ...rows].join('\n'));
+    }
+    return path;
+  }
+
+  async function getClient(inputs: string[], overrides: RawConfig = {}): Promise<AmazonClient> {
+    return new AmazonClient(inputs, await loadTestConfig(overrides));
+  }
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'amazon-client-'));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('with overlapping exports', () => {
+    let olderPath: string;
+    let newerPath: string;
+
+    before(async () => {
+      olderPath = await writeExport(
+        'march',
+        [getOrderRow('111-1', '2023-03-04', 'Mug', 10, 0.8)],
+        ['111-1,,2023-03-12,10.80', '111-1,,2023-03-12,10.80', '111-1,R-2,2023-03-13,5.40'],
+      );
+      newerPath = await writeExport(
+        'april',
+        [getOrderRow('111-1', '2023-03-04', 'Mug', 10, 0.8), getOrderRow('111-2', '2023-04-02', 'Pen', 5, 0.4)],
+        ['111-1,,2023-03-12,10.80', '111-1,R-2,2023-03-13,5.00'],
+      );
+    });
+
+    test('reads each order once, from the newest export', async () => {
+      const client = await getClient([`alice=${olderPath}`, `bob=${newerPath}`]);
+      const orders = await client.getOrders(START_DATE);
+
+      assert.deepEqual(
+        orders.map(({ orderId, account }) => ({ orderId, account })),
+        [
+          { orderId: '111-1', account: 'bob' },
+          { orderId: '111-2', account: 'bob' },
+        ],
+      );
+      assert.deepEqual(client.conflicts, []);
+    });
+
+    test('reads a return in both exports once, but keeps identical returns within one export', async () => {
+      const client = await getClient([`alice=${olderPath}`, `bob=${newerPath}`]);
+      const orders = await client.getOrders(START_DATE);
+      const { returns } = await client.getReturns(orders, START_DATE);
+
+      assert.deepEqual(
+        returns.map(({ orderId, account, amount }) => ({ orderId, account, amount })),
+        [
+          { orderId: '111-1', account: 'bob', amount: 10.8 },
+          { orderId: '111-1', account: 'alice', amount: 10.8 },
+          { orderId: '111-1', account: 'bob', amount: 5 },
+        ],
+      );
+    });
+
+    test('uses the return from the export of its order and reports a differing refund', async () => {
+      const client = await getClient([`alice=${olderPath}`, `bob=${newerPath}`]);
+      const orders = await client.getOrders(START_DATE);
+      await client.getReturns(orders, START_DATE);
+
+      assert.deepEqual(client.conflicts, [
+        {
+          orderId: '111-1',
+          olderExport: olderPath,
+          newerExport: newerPath,
+          differences: [`refund is 5.40 on 2023-03-13 in ${olderPath} but 5.00 on 2023-03-13 in ${newerPath}`],
+        },
+      ]);
+    });
+
+    test('reads exports with the same name as one account', async () => {
+      const client = await getClient([`alice=${olderPath}`, `alice=${newerPath}`]);
+      const orders = await client.getOrders(START_DATE);
+      const { returns } = await client.getReturns(orders, START_DATE);
+
+      assert.deepEqual(
+        [...orders, ...returns].map(({ account }) => account),
+        ['alice', 'alice', 'alice', 'alice', 'alice'],
+      );
+    });
+  });
+
+  describe('with partial refunds', () => {
+    let returns: Return[];
+
+    /**
+     * Get the items of the return refunded on the day
+     */
+    function getItems(returnDate: string): Item[] | undefined {
+      return returns.find((amazonReturn) => amazonReturn.returnDate.getTime() === new Date(returnDate).getTime())
+        ?.items;
+    }
+
+    before(async () => {
+      const path = await writeExport(
+        'refunds',
+        [getOrderRow('222-1', '2023-03-04', 'Mug', 10, 0.8), getOrderRow('222-1', '2023-03-04', 'Pen', 5, 0.4)],
+        [
+          '222-1,R-1,2023-03-10,10.80',
+          '222-1,R-2,2023-03-11,10.00',
+          '222-1,R-3,2023-03-12,9.30',
+          '222-1,R-4,2023-03-13,2.00',
+          '222-1,R-5,2023-03-14,1.00,Pen',
+        ],
+      );
+      const client = await getClient([path], { returnFeeMaxAmount: 2, returnFeeMaxPercent: 10 });
+      const orders = await client.getOrders(START_DATE);
+      ({ returns } = await client.getReturns(orders, START_DATE));
+    });
+
+    test('finds the items a refund adds up to, with or without their tax', () => {
+      assert.deepEqual(getItems('2023-03-10'), [{ description: 'Mug', amount: -10.8 }]);
+      assert.deepEqual(getItems('2023-03-11'), [{ description: 'Mug', amount: -10 }]);
+    });
+
+    test('allows for a return fee of up to returnFeeMaxAmount', () => {
+      assert.deepEqual(getItems('2023-03-12'), [
+        { description: 'Mug', amount: -10.8 },
+        { description: 'Return Fee', amount: 1.5 },
+      ]);
+    });
+
+    test('refunds a single Refund item when no items add up to the refund less an allowed fee', () => {
+      assert.deepEqual(getItems('2023-03-13'), [{ description: 'Refund', amount: -2 }]);
+    });
+
+    test('uses the item named by the return file, at the refund when only part of it was refunded', () => {
+      assert.deepEqual(getItems('2023-03-14'), [{ description: 'Pen', amount: -1 }]);
+    });
+  });
+});
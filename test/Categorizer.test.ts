@@ -0,0 +1,60 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Categorizer from '../Categorizer';
+import { Transaction } from '../Backend';
+import { loadTestConfig } from './stubServer';
+
+const CATEGORY_RULES = [
+  { keyword: 'k-cup', category: 'Groceries' },
+  { pattern: '^(kindle|audible) ', category: 'Books' },
+  { keyword: 'coffee', category: 'Coffee' },
+];
+
+function getTransaction(children: Transaction['children']): Transaction {
+  return { id: 't', amount: -10, date: new Date('2023-03-05'), children };
+}
+
+describe('Categorizer', () => {
+  test('uses the first rule that matches the description without its prefix, ignoring case', async () => {
+    const categorizer = new Categorizer(await loadTestConfig({ categoryRules: CATEGORY_RULES }), []);
+
+    assert.equal(categorizer.getCategory('Amazon - Coffee K-Cup Pods'), 'Groceries');
+    assert.equal(categorizer.getCategory('Amazon - Kindle Paperwhite'), 'Books');
+    // The prefix is not part of what a pattern matches
+    assert.equal(categorizer.getCategory('Amazon - My Kindle Case'), null);
+  });
+
+  test('prefers a rule over the history', async () => {
+    const categorizer = new Categorizer(await loadTestConfig({ categoryRules: CATEGORY_RULES }), [
+      getTransaction([{ description: 'Amazon - Coffee Beans', amount: -10, category: 'Groceries' }]),
+    ]);
+
+    assert.equal(categorizer.getCategory('Amazon - Coffee Beans'), 'Coffee');
+  });
+
+  test('uses the category most often given to the same description, ignoring case and spacing', async () => {
+    const categorizer = new Categorizer(await loadTestConfig(), [
+      getTransaction([
+        { description: 'Amazon - USB Cable', amount: -5, category: 'Electronics' },
+        { description: 'Amazon - Mug', amount: -5 },
+      ]),
+      getTransaction([{ description: ' amazon -  usb cable', amount: -10, category: 'Home' }]),
+      getTransaction([{ description: 'Amazon - USB Cable', amount: -10, category: 'Home' }]),
+    ]);
+
+    assert.equal(categorizer.getCategory('Amazon - USB Cable'), 'Home');
+    assert.equal(categorizer.getCategory('Amazon - Mug'), null);
+    assert.equal(categorizer.getCategory('Amazon - Pen'), null);
+  });
+
+  test('breaks a tie in the history alphabetically, whatever the order of the transactions', async () => {
+    const config = await loadTestConfig();
+    const transactions = [
+      getTransaction([{ description: 'Amazon - Mug', amount: -5, category: 'Kitchen' }]),
+      getTransaction([{ description: 'Amazon - Mug', amount: -5, category: 'Gifts' }]),
+    ];
+
+    assert.equal(new Categorizer(config, transactions).getCategory('Amazon - Mug'), 'Gifts');
+    assert.equal(new Categorizer(config, [...transactions].reverse()).getCategory('Amazon - Mug'), 'Gifts');
+  });
+});
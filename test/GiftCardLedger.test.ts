@@ -0,0 +1,107 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import GiftCardLedger from '../GiftCardLedger';
+import { GiftCardActivity, Order } from '../AmazonClient';
+
+function getActivity(date: string, amount: number, orderId: string | null = null): GiftCardActivity {
+  return { account: 'alice', date: new Date(date), amount, orderId, description: orderId ? 'Order' : 'Reload' };
+}
+
+/**
+ * Get an order paid with a gift card, with shipments of [tracking id, ship date, charge]
+ */
+function getOrder(
+  account: string,
+  orderId: string,
+  orderDate: string,
+  shipments: [string, string | null, number][],
+): Order {
+  return {
+    orderId,
+    account,
+    source: 'retail',
+    orderDate: new Date(orderDate),
+    usedGiftCard: true,
+    shipments: shipments.map(([trackingId, shipmentDate, amount]) => ({
+      trackingId,
+      shipmentDate: shipmentDate ? new Date(shipmentDate) : null,
+      amount,
+      items: [],
+    })),
+  };
+}
+
+const ACTIVITY = [
+  getActivity('2023-03-01', 30),
+  getActivity('2023-03-10', -12, 'A'),
+  getActivity('2023-03-20', 2, 'A'),
+];
+const ORDERS = [
+  getOrder('alice', 'A', '2023-03-09', [
+    ['1Z1', '2023-03-12', -8],
+    ['1Z2', '2023-03-11', -10],
+  ]),
+  getOrder('alice', 'B', '2023-03-15', [
+    ['1Z3', null, -20],
+    ['1Z4', '2023-03-16', -5],
+  ]),
+  getOrder('alice', 'C', '2023-03-16', [['1Z5', '2023-03-17', -5]]),
+  getOrder('bob', 'D', '2023-03-16', [['1Z6', '2023-03-17', -5]]),
+];
+
+describe('GiftCardLedger', () => {
+  const originalDirectory = process.cwd();
+
+  // The ledger is kept in the working directory
+  before(async () => {
+    process.chdir(await mkdtemp(join(tmpdir(), 'gift-card-ledger-')));
+  });
+
+  after(async () => {
+    const directory = process.cwd();
+    process.chdir(originalDirectory);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('adds only the activity the ledger does not have, counting identical activity', async () => {
+    const ledger = new GiftCardLedger();
+    await ledger.addActivity([getActivity('2023-03-01', 30)]);
+    await ledger.addActivity([getActivity('2023-03-01', 30), getActivity('2023-03-01', 30)]);
+    await ledger.addActivity([getActivity('2023-03-01', 30)]);
+
+    assert.deepEqual(await ledger.getBalances(), new Map([['alice', 60]]));
+  });
+
+  test('spends redemptions and the balance on orders, oldest first, and keeps the allocations across runs', async () => {
+    const ledger = new GiftCardLedger();
+    await ledger.addActivity(ACTIVITY);
+    const allocation = await ledger.allocate(ORDERS);
+
+    assert.deepEqual(
+      allocation.shipments,
+      new Map([
+        // The redemption goes to the shipment that shipped first
+        ['A/1Z2', 10],
+        ['A/1Z1', 2],
+        // The 18 left of the balance at the order date, with unshipped shipments last
+        ['B/1Z4', 5],
+        ['B/1Z3', 13],
+      ]),
+    );
+    assert.deepEqual(allocation.refunds, new Map([['A', 2]]));
+    assert.deepEqual(allocation.trackedAccounts, new Set(['alice']));
+    assert.deepEqual(await ledger.getBalances(), new Map([['alice', 2]]));
+    await ledger.save();
+
+    const nextLedger = new GiftCardLedger();
+    await nextLedger.addActivity([getActivity('2023-03-14', 100)]);
+    const nextAllocation = await nextLedger.allocate(ORDERS);
+
+    assert.equal(nextAllocation.shipments.get('B/1Z3'), 13);
+    assert.equal(nextAllocation.shipments.get('C/1Z5'), 5);
+    assert.deepEqual(await nextLedger.getBalances(), new Map([['alice', 97]]));
+  });
+});
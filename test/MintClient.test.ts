@@ -0,0 +1,95 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import MintClient from '../MintClient';
+import MintCredentialsProvider from '../MintCredentialsProvider';
+import { MintAuthError, MintValidationError } from '../mintApi';
+import { StubResponse, StubServer, loadTestConfig, startStubServer } from './stubServer';
+
+const START_DATE = new Date('2023-03-01');
+const EMPTY_PAGE = { body: { metaData: { totalSize: 0 }, Transaction: [] } };
+
+/**
+ * Gives new credentials on each login, instead of logging in to Mint in a browser
+ */
+class StubCredentialsProvider extends MintCredentialsProvider {
+  logins = 0;
+
+  async getCredentials() {
+    return { apiKey: 'api-key', cookie: `session-${this.logins}`, expiresAt: null };
+  }
+
+  async refreshCredentials() {
+    this.logins++;
+  }
+}
+
+describe('MintClient', () => {
+  // Responses for the next requests, after which requests get an empty page of transactions
+  const responses: StubResponse[] = [];
+  let server: StubServer;
+  let credentialsProvider: StubCredentialsProvider;
+  let client: MintClient;
+
+  before(async () => {
+    server = await startStubServer(() => responses.shift() ?? EMPTY_PAGE);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    responses.length = 0;
+    server.requests.length = 0;
+    const config = await loadTestConfig({ mintApiUrl: server.url, mintRequestsPerSecond: 100 });
+    credentialsProvider = new StubCredentialsProvider(config);
+    client = new MintClient(config, credentialsProvider);
+  });
+
+  test('retries requests that were rate limited or failed with a server error', async () => {
+    responses.push({ status: 429, body: 'Too many requests' }, { status: 503, body: 'Unavailable' });
+
+    assert.deepEqual(await client.getTransactions(START_DATE), []);
+    assert.equal(server.requests.length, 3);
+  });
+
+  test('logs in again once when Mint rejects the credentials', async () => {
+    responses.push({ status: 401, body: 'Unauthorized' });
+
+    assert.deepEqual(await client.getTransactions(START_DATE), []);
+    assert.equal(credentialsProvider.logins, 1);
+    assert.deepEqual(
+      server.requests.map(({ headers }) => headers.cookie),
+      ['session-0', 'session-1'],
+    );
+  });
+
+  test('stops with a MintAuthError when Mint rejects the credentials after logging in again', async () => {
+    responses.push({ status: 401, body: 'Unauthorized' }, { status: 401, body: 'Unauthorized' });
+
+    await assert.rejects(
+      client.getTransactions(START_DATE),
+      (e: unknown) => e instanceof MintAuthError && e.status === 401,
+    );
+    assert.equal(credentialsProvider.logins, 1);
+    assert.equal(server.requests.length, 2);
+  });
+
+  test('does not retry an update Mint rejects', async () => {
+    responses.push({ status: 400, body: { message: 'Split amounts do not add up' } });
+
+    await assert.rejects(
+      client.restoreTransaction({
+        id: '1',
+        amount: -12.34,
+        date: new Date('2023-03-05'),
+        children: [{ description: 'AMZN Mktp US', amount: -12.34 }],
+      }),
+      (e: unknown) => e instanceof MintValidationError && /Split amounts do not add up/.test(e.message),
+    );
+    assert.deepEqual(
+      server.requests.map(({ method, url }) => `${method} ${url}`),
+      ['PUT /transactions/1'],
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import MonarchClient from '../MonarchClient';
+import { JoinedRecord } from '../Joiner';
+import { StubRequest, StubServer, loadTestConfig, startStubServer } from './stubServer';
+
+// The stub returns fewer transactions per page than the client asks for, so that it has to page
+const STUB_PAGE_SIZE = 2;
+
+const rawTransactions = [
+  {
+    id: 'split-1',
+    amount: -7.5,
+    date: '2023-03-06',
+    notes: 'Amazon - Mug',
+    plaidName: 'AMAZON.COM',
+    isSplitTransaction: true,
+    originalTransaction: { id: 'parent' },
+    merchant: { id: 'm', name: 'Amazon' },
+    category: { id: 'home-id', name: 'Home' },
+  },
+  {
+    id: 'single',
+    amount: -12.34,
+    date: '2023-03-05',
+    notes: null,
+    plaidName: 'AMZN Mktp US',
+    isSplitTransaction: false,
+    originalTransaction: null,
+    merchant: { id: 'm', name: 'Amazon' },
+    category: null,
+  },
+  {
+    id: 'grocer',
+    amount: -5,
+    date: '2023-03-05',
+    notes: null,
+    plaidName: 'GROCER',
+    isSplitTransaction: false,
+    originalTransaction: null,
+    merchant: { id: 'g', name: 'Grocer' },
+    category: null,
+  },
+  {
+    id: 'split-2',
+    amount: -2.5,
+    date: '2023-03-06',
+    notes: 'Amazon - Pen',
+    plaidName: 'AMAZON.COM',
+    isSplitTransaction: true,
+    originalTransaction: { id: 'parent' },
+    merchant: { id: 'm', name: 'Amazon' },
+    category: null,
+  },
+];
+
+const transactionDetails: Record<string, unknown> = {
+  single: {
+    id: 'single',
+    amount: -12.34,
+    notes: null,
+    merchant: { id: 'm', name: 'Amazon' },
+    category: { id: 'shopping-id' },
+    splitTransactions: [],
+  },
+  parent: {
+    id: 'parent',
+    amount: -10,
+    notes: null,
+    merchant: { id: 'm', name: 'Amazon' },
+    category: { id: 'shopping-id' },
+    splitTransactions: [
+      { id: 'split-1', amount: -7.5, notes: 'Amazon - Mug' },
+      { id: 'split-2', amount: -2.5, notes: 'Amazon - Pen' },
+    ],
+  },
+};
+
+interface GraphqlRequest {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Narrow a recorded request body to the GraphQL query and variables the client sends
+ */
+function getGraphqlRequest({ body }: StubRequest): GraphqlRequest {
+  assert.ok(isObject(body) && typeof body.query === 'string' && isObject(body.variables), 'Not a GraphQL request');
+  return { query: body.query, variables: body.variables };
+}
+
+function respond(request: StubRequest) {
+  const { query, variables } = getGraphqlRequest(request);
+  if (query.includes('GetTransactionsList')) {
+    const offset = Number(variables.offset);
+    const results = rawTransactions.slice(offset, offset + STUB_PAGE_SIZE);
+    return { body: { data: { allTransactions: { totalCount: rawTransactions.length, results } } } };
+  }
+  if (query.includes('GetTransaction(')) {
+    return { body: { data: { getTransaction: transactionDetails[String(variables.id)] } } };
+  }
+  if (query.includes('GetCategories')) {
+    return { body: { data: { categories: [{ id: 'home-id', name: 'Home' }] } } };
+  }
+  if (query.includes('UpdateTransactionSplit')) {
+    return { body: { data: { updateTransactionSplit: { errors: null } } } };
+  }
+  if (query.includes('UpdateTransaction(')) {
+    return { body: { data: { updateTransaction: { errors: null } } } };
+  }
+  return { body: { errors: [{ message: 'Unknown query' }] } };
+}
+
+function getMutations(requests: StubRequest[]) {
+  return requests
+    .map(getGraphqlRequest)
+    .filter(({ query }) => query.includes('mutation'))
+    .map(({ query, variables }) => ({ operation: query.match(/mutation (\w+)/)?.[1], input: variables.input }));
+}
+
+function getRecord(mintTransactionId: string, amount: number, items: JoinedRecord['items']): JoinedRecord {
+  return {
+    mintTransactionId,
+    orderId: '111-1',
+    account: 'default',
+    orderDate: new Date('2023-03-04'),
+    amount,
+    items,
+    isUnmodified: false,
+    amazonReturn: null,
+  };
+}
+
+describe('MonarchClient', () => {
+  let server: StubServer;
+  let client: MonarchClient;
+
+  before(async () => {
+    process.env.MONARCH_TOKEN = 'test-token';
+    server = await startStubServer(respond);
+    client = new MonarchClient(await loadTestConfig({ monarchApiUrl: server.url }));
+  });
+
+  after(async () => {
+    await server.close();
+    delete process.env.MONARCH_TOKEN;
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  test('reads every page of transactions and combines splits into their original transaction', async () => {
+    const transactions = await client.getTransactions(new Date('2023-03-01'));
+
+    assert.deepEqual(
+      server.requests.map((request) => getGraphqlRequest(request).variables.offset),
+      [0, 2],
+    );
+    assert.deepEqual(getGraphqlRequest(server.requests[0]).variables.filters, { startDate: '2023-03-01' });
+    assert.deepEqual(
+      transactions.map(({ id, amount, children }) => ({ id, amount, children })),
+      [
+        { id: 'single', amount: -12.34, children: [{ description: '', amount: -12.34, category: undefined }] },
+        {
+          id: 'parent',
+          amount: -10,
+          children: [
+            { description: 'Amazon - Mug', amount: -7.5, category: 'Home' },
+            { description: 'Amazon - Pen', amount: -2.5, category: undefined },
+          ],
+        },
+      ],
+    );
+  });
+
+  test('writes a single item as the notes with its category', async () => {
+    await client.updateTransaction(
+      getRecord('single', -12.34, [{ trackingId: 't', description: 'Amazon - Mug', amount: -12.34, category: 'Home' }]),
+    );
+
+    assert.deepEqual(getMutations(server.requests), [
+      { operation: 'UpdateTransaction', input: { id: 'single', notes: 'Amazon - Mug', category: 'home-id' } },
+    ]);
+  });
+
+  test('writes several items as splits with the rounding difference in the last one, keeping the category of items without one', async () => {
+    await client.updateTransaction(
+      getRecord('single', -12.34, [
+        { trackingId: 't', description: 'Amazon - Mug', amount: -4.1133, category: 'Home' },
+        { trackingId: 't', description: 'Amazon - Pen', amount: -4.1133 },
+        { trackingId: 't', description: 'Amazon - Cup', amount: -4.1133 },
+      ]),
+    );
+
+    assert.deepEqual(getMutations(server.requests), [
+      {
+        operation: 'UpdateTransactionSplit',
+        input: {
+          transactionId: 'single',
+          splitData: [
+            { merchantName: 'Amazon', categoryId: 'home-id', amount: -4.11, notes: 'Amazon - Mug' },
+            { merchantName: 'Amazon', categoryId: 'shopping-id', amount: -4.11, notes: 'Amazon - Pen' },
+            { merchantName: 'Amazon', categoryId: 'shopping-id', amount: -4.12, notes: 'Amazon - Cup' },
+          ],
+        },
+      },
+    ]);
+  });
+
+  test('rejects items that do not add up to the transaction', async () => {
+    await assert.rejects(
+      client.updateTransaction(
+        getRecord('single', -12.34, [
+          { trackingId: 't', description: 'Amazon - Mug', amount: -5 },
+          { trackingId: 't', description: 'Amazon - Pen', amount: -5 },
+        ]),
+      ),
+      /Split amounts total -10.00 but the Monarch transaction is -12.34/,
+    );
+    assert.deepEqual(getMutations(server.requests), []);
+  });
+
+  test('restores a split transaction to a single note by removing its splits first', async () => {
+    await client.restoreTransaction({
+      id: 'parent',
+      amount: -10,
+      date: new Date('2023-03-06'),
+      children: [{ description: 'Original note', amount: -10 }],
+    });
+
+    assert.deepEqual(getMutations(server.requests), [
+      { operation: 'UpdateTransactionSplit', input: { transactionId: 'parent', splitData: [] } },
+      { operation: 'UpdateTransaction', input: { id: 'parent', notes: 'Original note' } },
+    ]);
+  });
+
+  test('reports mutation errors', async () => {
+    server.requests.length = 0;
+    const failingServer = await startStubServer((request) =>
+      getGraphqlRequest(request).query.includes('mutation')
+        ? { body: { data: { updateTransaction: { errors: { message: 'Invalid notes', fieldErrors: null } } } } }
+        : respond(request),
+    );
+    try {
+      const failingClient = new MonarchClient(await loadTestConfig({ monarchApiUrl: failingServer.url }));
+      await assert.rejects(
+        failingClient.updateTransaction(
+          getRecord('single', -12.34, [{ trackingId: 't', description: 'Amazon - Mug', amount: -12.34 }]),
+        ),
+        /Monarch updateTransaction failed: Invalid notes/,
+      );
+    } finally {
+      await failingServer.close();
+    }
+  });
+});
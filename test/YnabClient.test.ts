@@ -0,0 +1,186 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import YnabClient from '../YnabClient';
+import { JoinedRecord } from '../Joiner';
+import { StubServer, loadTestConfig, startStubServer } from './stubServer';
+
+const TRANSACTIONS_PATH = '/budgets/last-used/transactions';
+
+const rawTransactions = [
+  {
+    id: 'single',
+    date: '2023-03-05',
+    amount: -12340,
+    memo: null,
+    payee_name: 'Amazon',
+    import_payee_name: 'AMAZON.COM',
+    import_payee_name_original: 'AMZN Mktp US',
+    account_id: 'card',
+    category_name: 'Shopping',
+    deleted: false,
+    subtransactions: [],
+  },
+  {
+    id: 'split',
+    date: '2023-03-06',
+    amount: -10000,
+    memo: null,
+    payee_name: 'Amazon',
+    import_payee_name: null,
+    import_payee_name_original: 'AMAZON.COM',
+    account_id: 'card',
+    category_name: null,
+    deleted: false,
+    subtransactions: [
+      { id: 'a', amount: -7500, memo: 'Amazon - Mug', category_name: 'Home', deleted: false },
+      { id: 'b', amount: -2500, memo: 'Amazon - Pen', category_name: null, deleted: false },
+      { id: 'c', amount: -1000, memo: 'Removed', category_name: null, deleted: true },
+    ],
+  },
+  {
+    id: 'other',
+    date: '2023-03-07',
+    amount: -5000,
+    memo: null,
+    payee_name: 'Grocer',
+    import_payee_name: null,
+    import_payee_name_original: 'GROCER',
+    account_id: 'card',
+    category_name: null,
+    deleted: false,
+    subtransactions: [],
+  },
+];
+
+function getRecord(items: JoinedRecord['items']): JoinedRecord {
+  return {
+    mintTransactionId: 'single',
+    orderId: '111-1',
+    account: 'default',
+    orderDate: new Date('2023-03-04'),
+    amount: -12.34,
+    items,
+    isUnmodified: false,
+    amazonReturn: null,
+  };
+}
+
+describe('YnabClient', () => {
+  let server: StubServer;
+  let client: YnabClient;
+
+  before(async () => {
+    process.env.YNAB_TOKEN = 'test-token';
+    server = await startStubServer(({ method, url }) => {
+      const path = url.split('?')[0];
+      if (method === 'GET' && path === TRANSACTIONS_PATH) {
+        return { body: { data: { transactions: rawTransactions } } };
+      }
+      if (method === 'GET' && path.startsWith(`${TRANSACTIONS_PATH}/`)) {
+        const id = path.substring(TRANSACTIONS_PATH.length + 1);
+        return { body: { data: { transaction: rawTransactions.find((transaction) => transaction.id === id) } } };
+      }
+      if (method === 'GET' && path === '/budgets/last-used/categories') {
+        const categories = [{ id: 'home-id', name: 'Home', deleted: false }];
+        return { body: { data: { category_groups: [{ categories }] } } };
+      }
+      if (method === 'PUT') {
+        return { body: { data: {} } };
+      }
+      return { status: 404, body: { error: { detail: 'Not found' } } };
+    });
+    client = new YnabClient(await loadTestConfig({ ynabApiUrl: server.url }));
+  });
+
+  after(async () => {
+    await server.close();
+    delete process.env.YNAB_TOKEN;
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  test('reads Amazon transactions with amounts converted from milliunits', async () => {
+    const transactions = await client.getTransactions(new Date('2023-03-01'));
+
+    assert.equal(server.requests[0].url, `${TRANSACTIONS_PATH}?since_date=2023-03-01`);
+    assert.deepEqual(
+      transactions.map(({ id, amount, children }) => ({ id, amount, children })),
+      [
+        { id: 'single', amount: -12.34, children: [{ description: '', amount: -12.34, category: 'Shopping' }] },
+        {
+          id: 'split',
+          amount: -10,
+          children: [
+            { description: 'Amazon - Mug', amount: -7.5, category: 'Home' },
+            { description: 'Amazon - Pen', amount: -2.5, category: undefined },
+          ],
+        },
+      ],
+    );
+  });
+
+  test('writes a single item as the memo', async () => {
+    await client.updateTransaction(getRecord([{ trackingId: 't', description: 'Amazon - Mug', amount: -12.34 }]));
+
+    const put = server.requests.find(({ method }) => method === 'PUT')!;
+    assert.equal(put.url, `${TRANSACTIONS_PATH}/single`);
+    assert.deepEqual(put.body, { transaction: { memo: 'Amazon - Mug' } });
+  });
+
+  test('writes several items as subtransactions in milliunits, with the rounding difference in the last one', async () => {
+    await client.updateTransaction(
+      getRecord([
+        { trackingId: 't', description: 'Amazon - Mug', amount: -4.1133, category: 'Home' },
+        { trackingId: 't', description: 'Amazon - Pen', amount: -4.1133 },
+        { trackingId: 't', description: 'Amazon - Cup', amount: -4.1133 },
+      ]),
+    );
+
+    const put = server.requests.find(({ method }) => method === 'PUT')!;
+    assert.deepEqual(put.body, {
+      transaction: {
+        subtransactions: [
+          { amount: -4113, memo: 'Amazon - Mug', category_id: 'home-id' },
+          { amount: -4113, memo: 'Amazon - Pen', category_id: null },
+          { amount: -4114, memo: 'Amazon - Cup', category_id: null },
+        ],
+      },
+    });
+  });
+
+  test('rejects items that do not add up to the transaction', async () => {
+    await assert.rejects(
+      client.updateTransaction(
+        getRecord([
+          { trackingId: 't', description: 'Amazon - Mug', amount: -5 },
+          { trackingId: 't', description: 'Amazon - Pen', amount: -5 },
+        ]),
+      ),
+      /Split amounts total -10.00 but the YNAB transaction is -12.34/,
+    );
+    assert.equal(server.requests.filter(({ method }) => method === 'PUT').length, 0);
+  });
+
+  test('restores a snapshot with a single child as the memo and category', async () => {
+    await client.restoreTransaction({
+      id: 'single',
+      amount: -12.34,
+      date: new Date('2023-03-05'),
+      children: [{ description: 'AMZN Mktp US', amount: -12.34, category: 'Home' }],
+    });
+
+    const put = server.requests.find(({ method }) => method === 'PUT')!;
+    assert.equal(put.url, `${TRANSACTIONS_PATH}/single`);
+    assert.deepEqual(put.body, { transaction: { memo: 'AMZN Mktp US', category_id: 'home-id' } });
+  });
+
+  test('refuses to change a split transaction', async () => {
+    const [, split] = await client.getTransactions(new Date('2023-03-01'));
+    assert.match(client.getUnwritableReason(split) ?? '', /YNAB transaction split is split/);
+
+    await assert.rejects(client.restoreTransaction({ ...split, children: [split.children[0]] }), /is split/);
+    assert.equal(server.requests.filter(({ method }) => method === 'PUT').length, 0);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ItemCharges, allocateCharges } from '../allocation';
+
+function getCharges(description: string, price: number, total: number, extras: Partial<ItemCharges> = {}): ItemCharges {
+  return { description, price, tax: 0, shipping: 0, discount: 0, total, ...extras };
+}
+
+describe('allocateCharges', () => {
+  test('spreads tax over the items in proportion to their price, giving leftover cents to the largest remainders', () => {
+    const items = allocateCharges([getCharges('Mug', 1, 1.03), getCharges('Pen', 2, 2.07)], 'proportional');
+
+    // 10 cents of tax split 1:2 is 3.33 and 6.67 cents
+    assert.deepEqual(items, [
+      { description: 'Mug', amount: -1.03 },
+      { description: 'Pen', amount: -2.07 },
+    ]);
+  });
+
+  test('gives leftover cents to the earliest items when their remainders are equal', () => {
+    const items = allocateCharges(
+      [getCharges('Mug', 10, 10.33), getCharges('Pen', 10, 10.33), getCharges('Cup', 10, 10.34)],
+      'proportional',
+    );
+
+    assert.deepEqual(items, [
+      { description: 'Mug', amount: -10.34 },
+      { description: 'Pen', amount: -10.33 },
+      { description: 'Cup', amount: -10.33 },
+    ]);
+  });
+
+  test('spreads discounts over the items, keeping the total', () => {
+    const items = allocateCharges(
+      [getCharges('Mug', 5, 4, { discount: 1 }), getCharges('Pen', 15, 15)],
+      'proportional',
+    );
+
+    assert.deepEqual(items, [
+      { description: 'Mug', amount: -4.75 },
+      { description: 'Pen', amount: -14.25 },
+    ]);
+  });
+
+  test('splits the extra charges equally between items without a price', () => {
+    const items = allocateCharges([getCharges('Gift A', 0, 0.5), getCharges('Gift B', 0, 0.51)], 'proportional');
+
+    assert.deepEqual(items, [
+      { description: 'Gift A', amount: -0.51 },
+      { description: 'Gift B', amount: -0.5 },
+    ]);
+  });
+
+  test('lists tax, shipping and discounts as their own lines, with the rounding in the tax line', () => {
+    const items = allocateCharges(
+      [
+        getCharges('Mug', 10, 13.8, { tax: 0.8, shipping: 5, discount: 2 }),
+        getCharges('Pen', 1.99, 2.16, { tax: 0.16 }),
+      ],
+      'separate',
+    );
+
+    assert.deepEqual(items, [
+      { description: 'Mug', amount: -10 },
+      { description: 'Pen', amount: -1.99 },
+      { description: 'Tax', amount: -0.97 },
+      { description: 'Shipping', amount: -5 },
+      { description: 'Discount', amount: 2 },
+    ]);
+  });
+
+  test('leaves out separate lines that are zero', () => {
+    const items = allocateCharges([getCharges('Mug', 10, 10)], 'separate');
+
+    assert.deepEqual(items, [{ description: 'Mug', amount: -10 }]);
+  });
+
+  test('uses the line totals as they are when not allocating', () => {
+    const items = allocateCharges([getCharges('Mug', 10, 10.8, { tax: 0.8 }), getCharges('Pen', 2, 2.16)], 'none');
+
+    assert.deepEqual(items, [
+      { description: 'Mug', amount: -10.8 },
+      { description: 'Pen', amount: -2.16 },
+    ]);
+  });
+});
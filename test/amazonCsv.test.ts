@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { AmazonCsvError, AmazonCsvRow, readAmazonCsv } from '../amazonCsv';
+
+const FILE = 'Retail.OrderHistory.1.csv';
+const COLUMNS = ['Order ID', 'Order Date', 'Total Owed', 'Ship Date'];
+
+function toRecord(row: AmazonCsvRow) {
+  return {
+    orderId: row.string('Order ID'),
+    orderDate: row.date('Order Date'),
+    total: row.amount('Total Owed'),
+    shipDate: row.optionalDate('Ship Date'),
+  };
+}
+
+function read(text: string, isLenient = false) {
+  return readAmazonCsv(FILE, Readable.from([text]), COLUMNS, toRecord, isLenient);
+}
+
+describe('readAmazonCsv', () => {
+  test('reads values by header name, whatever the column order, ignoring other columns', async () => {
+    const { records, skippedRows } = await read(
+      '\uFEFF Ship Date ,Website,Total Owed,Order Date,Order ID\n' +
+        'Not Available,Amazon.com,"$1,234.50",2023-03-04T10:00:00Z,111-1\n' +
+        '2023-03-06T00:00:00Z,Amazon.com,12.34,2023-03-05T00:00:00Z,111-2\n',
+    );
+
+    assert.deepEqual(records, [
+      { orderId: '111-1', orderDate: new Date('2023-03-04'), total: 1234.5, shipDate: null },
+      { orderId: '111-2', orderDate: new Date('2023-03-05'), total: 12.34, shipDate: new Date('2023-03-06') },
+    ]);
+    assert.deepEqual(skippedRows, []);
+  });
+
+  test('names the required columns missing from the header', async () => {
+    await assert.rejects(
+      read('Order ID,Order Date\n111-1,2023-03-04\n'),
+      (e: unknown) =>
+        e instanceof AmazonCsvError && e.message === `${FILE} line 1: Missing column(s) Total Owed, Ship Date`,
+    );
+  });
+
+  test('names the file, line and column of a value that cannot be read', async () => {
+    await assert.rejects(
+      read(`${COLUMNS.join(',')}\n111-1,2023-03-04,12.34,\n111-2,2023-03-05,twelve,\n`),
+      (e: unknown) =>
+        e instanceof AmazonCsvError &&
+        e.line === 3 &&
+        e.column === 'Total Owed' &&
+        e.message === `${FILE} line 3, column "Total Owed": Invalid amount "twelve"`,
+    );
+  });
+
+  test('skips rows that cannot be read in lenient mode and returns them', async () => {
+    const { records, skippedRows } = await read(
+      `${COLUMNS.join(',')}\n111-1,2023-03-04,12.34,\n,2023-03-05,1.00,\n111-3,2023-03-06,5.00,\n`,
+      true,
+    );
+
+    assert.deepEqual(
+      records.map(({ orderId }) => orderId),
+      ['111-1', '111-3'],
+    );
+    assert.deepEqual(
+      skippedRows.map(({ message }) => message),
+      [`${FILE} line 3, column "Order ID": Missing value`],
+    );
+  });
+});
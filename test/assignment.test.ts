@@ -0,0 +1,93 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssignmentCandidate, solveAssignment } from '../assignment';
+
+interface NamedCandidate extends AssignmentCandidate {
+  name: string;
+}
+
+function getCandidate(name: string, resources: string[], value: number[], cost = 0, key = name): NamedCandidate {
+  return { name, resources, value, cost, key };
+}
+
+function getNames(candidates: NamedCandidate[]): string[] {
+  return candidates.map(({ name }) => name).sort();
+}
+
+describe('solveAssignment', () => {
+  test('chooses the non-conflicting candidates with the highest total value', () => {
+    const { chosen, ambiguous, isTruncated } = solveAssignment(
+      [
+        getCandidate('t1-s1', ['t1', 's1'], [1], 0),
+        getCandidate('t1-s2', ['t1', 's2'], [1], 1),
+        getCandidate('t2-s1', ['t2', 's1'], [1], 1),
+      ],
+      1000,
+    );
+
+    assert.deepEqual(getNames(chosen), ['t1-s2', 't2-s1']);
+    assert.deepEqual(ambiguous, []);
+    assert.equal(isTruncated, false);
+  });
+
+  test('compares values in order, so an earlier value outweighs any later one', () => {
+    const { chosen } = solveAssignment(
+      [getCandidate('items', ['t1', 's1'], [1, 0]), getCandidate('close date', ['t1', 's2'], [0, 5])],
+      1000,
+    );
+
+    assert.deepEqual(getNames(chosen), ['items']);
+  });
+
+  test('breaks a tie in value with the lowest total cost', () => {
+    const { chosen, ambiguous } = solveAssignment(
+      [getCandidate('far', ['t1', 's1'], [1], 3), getCandidate('near', ['t1', 's2'], [1], 1)],
+      1000,
+    );
+
+    assert.deepEqual(getNames(chosen), ['near']);
+    assert.deepEqual(ambiguous, []);
+  });
+
+  test('reports equally good candidates as ambiguous without choosing them, and still solves other groups', () => {
+    const { chosen, ambiguous } = solveAssignment(
+      [
+        getCandidate('t1-s1', ['t1', 's1'], [1], 1),
+        getCandidate('t2-s1', ['t2', 's1'], [1], 1),
+        getCandidate('t3-s2', ['t3', 's2'], [1], 1),
+      ],
+      1000,
+    );
+
+    assert.deepEqual(getNames(chosen), ['t3-s2']);
+    assert.deepEqual(ambiguous.map(getNames), [['t1-s1', 't2-s1']]);
+  });
+
+  test('chooses one of the candidates with the same key without reporting them as ambiguous', () => {
+    const { chosen, ambiguous } = solveAssignment(
+      [
+        getCandidate('t1-s1', ['t1', 's1'], [1], 1, 'same items'),
+        getCandidate('t1-s2', ['t1', 's2'], [1], 1, 'same items'),
+      ],
+      1000,
+    );
+
+    assert.equal(chosen.length, 1);
+    assert.deepEqual(ambiguous, []);
+  });
+
+  test('chooses the candidates all tied assignments agree on', () => {
+    const { chosen, ambiguous } = solveAssignment(
+      [
+        getCandidate('t1-s1', ['t1', 's1'], [2], 0),
+        getCandidate('t2-s1', ['t2', 's1'], [1], 0),
+        getCandidate('t2-s2', ['t2', 's2'], [1], 1),
+        getCandidate('t3-s2', ['t3', 's2'], [1], 1),
+      ],
+      1000,
+    );
+
+    assert.deepEqual(getNames(chosen), ['t1-s1']);
+    assert.deepEqual(ambiguous.map(getNames), [['t2-s2', 't3-s2']]);
+  });
+});
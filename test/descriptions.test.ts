@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDescription, isSameDescription } from '../descriptions';
+import { RawConfig } from '../Config';
+import { loadTestConfig } from './stubServer';
+
+const CONTEXT = { orderId: '111-1234567-1234567', account: 'alice' };
+
+async function format(title: string, quantity: number, overrides: RawConfig = {}): Promise<string> {
+  return formatDescription(title, quantity, CONTEXT, await loadTestConfig(overrides));
+}
+
+describe('formatDescription', () => {
+  test('prefixes the title and adds the quantity of merged items', async () => {
+    assert.equal(await format('  Ceramic Mug ', 1), 'Amazon - Ceramic Mug');
+    assert.equal(await format('Ceramic Mug', 3), 'Amazon - Ceramic Mug ×3');
+  });
+
+  test('fills in the order id and account', async () => {
+    assert.equal(
+      await format('Ceramic Mug', 1, { descriptionTemplate: '{title} ({account} {orderId})' }),
+      'Ceramic Mug (alice 111-1234567-1234567)',
+    );
+  });
+
+  test('shortens a long title to the product name before its details', async () => {
+    const description = await format('Anker Charger, 20W USB-C Fast Wall Plug', 2, { descriptionMaxLength: 30 });
+
+    assert.equal(description, 'Amazon - Anker Charger ×2');
+  });
+
+  test('shortens a long product name to its brand and key noun', async () => {
+    const description = await format('Anker Nano Pro Super Fast Charger', 1, { descriptionMaxLength: 30 });
+
+    assert.equal(description, 'Amazon - Anker Charger');
+  });
+
+  test('cuts off a title that cannot be shortened otherwise', async () => {
+    const description = await format('Supercalifragilisticexpialidocious', 1, { descriptionMaxLength: 30 });
+
+    assert.equal(description, 'Amazon - Supercalifragilistic…');
+    assert.equal(description.length, 30);
+  });
+});
+
+describe('isSameDescription', () => {
+  test('ignores differences in spacing', async () => {
+    const config = await loadTestConfig();
+
+    assert.equal(isSameDescription('Amazon -  Ceramic Mug ', 'Amazon - Ceramic Mug', config), true);
+    assert.equal(isSameDescription('Amazon - Ceramic Mug', 'Amazon - Ceramic Cup', config), false);
+  });
+
+  test('compares descriptions held to descriptionMaxLength', async () => {
+    const config = await loadTestConfig({ descriptionMaxLength: 20 });
+
+    assert.equal(isSameDescription('Amazon - Ceramic Mug, Blue', 'Amazon - Ceramic Mu…', config), true);
+  });
+});
@@ -0,0 +1,67 @@
+import { createServer, IncomingHttpHeaders, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { Config, RawConfig, loadConfig } from '../Config';
+
+export interface StubRequest {
+  method: string;
+  /**
+   * Path and query string of the request
+   */
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+export interface StubResponse {
+  status?: number;
+  body: unknown;
+}
+
+export interface StubServer {
+  url: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString();
+  return text ? JSON.parse(text) : null;
+}
+
+/**
+ * Start a local HTTP server that answers JSON requests with the handler's responses and records every request
+ */
+export async function startStubServer(handler: (request: StubRequest) => StubResponse): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = createServer(async (message, response) => {
+    const request = {
+      method: message.method ?? 'GET',
+      url: message.url ?? '/',
+      headers: message.headers,
+      body: await readBody(message),
+    };
+    requests.push(request);
+    const { status = 200, body } = handler(request);
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Load the config from the test fixture rather than a local config.json, with the overrides applied
+ */
+export function loadTestConfig(overrides: RawConfig = {}): Promise<Config> {
+  return loadConfig(join(__dirname, 'fixtures', 'config.json'), overrides);
+}
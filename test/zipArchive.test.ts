@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { readZipEntries } from '../zipArchive';
+
+const FILE = 'export.zip';
+const CSV_NAME = 'Retail.OrderHistory.1/Retail.OrderHistory.1.csv';
+
+// The fixture has a directory, a deflated CSV and a stored file with a UTF-8 name, written by Python's zipfile
+function readFixture(): Buffer {
+  return readFileSync(join(__dirname, 'fixtures', FILE));
+}
+
+/**
+ * Get the offset of the central directory header of the named entry
+ */
+function getCentralHeaderOffset(archive: Buffer, name: string): number {
+  const offset = archive.lastIndexOf('PK\x01\x02', archive.lastIndexOf(name), 'latin1');
+  assert.equal(archive.toString('utf8', offset + 46, offset + 46 + name.length), name);
+  return offset;
+}
+
+describe('readZipEntries', () => {
+  test('lists files without directories and reads deflated and stored entries', () => {
+    const entries = readZipEntries(FILE, readFixture());
+
+    assert.deepEqual(
+      entries.map(({ name }) => name),
+      [CSV_NAME, 'Café.txt'],
+    );
+    assert.equal(entries[0].read().toString(), 'Order ID,Total Owed\n' + '111-1,12.34\n'.repeat(20));
+    assert.equal(entries[1].read().toString(), 'stored');
+  });
+
+  test('rejects files that are not ZIP archives', () => {
+    assert.throws(() => readZipEntries(FILE, Buffer.from('Order ID,Total Owed\n'.repeat(5))), /is not a ZIP archive/);
+  });
+
+  test('rejects ZIP64 entries instead of reading their offsets', () => {
+    const archive = readFixture();
+    archive.writeUInt32LE(0xffffffff, getCentralHeaderOffset(archive, CSV_NAME) + 42);
+
+    assert.throws(() => readZipEntries(FILE, archive), /export\.zip is a ZIP64 archive, which is not supported/);
+  });
+
+  test('rejects ZIP64 archives', () => {
+    const archive = readFixture();
+    const end = archive.lastIndexOf('PK\x05\x06', undefined, 'latin1');
+    archive.writeUInt16LE(0xffff, end + 10);
+
+    assert.throws(() => readZipEntries(FILE, archive), /is a ZIP64 archive/);
+  });
+
+  test('rejects encrypted entries when they are read', () => {
+    const archive = readFixture();
+    const offset = getCentralHeaderOffset(archive, CSV_NAME);
+    archive.writeUInt16LE(archive.readUInt16LE(offset + 8) | 0x1, offset + 8);
+    const [entry] = readZipEntries(FILE, archive);
+
+    assert.throws(() => entry.read(), new RegExp(`${CSV_NAME} is encrypted, which is not supported`));
+  });
+
+  test('rejects entries that extend past the end of the archive', () => {
+    const archive = readFixture();
+    archive.writeUInt32LE(archive.length, getCentralHeaderOffset(archive, CSV_NAME) + 20);
+    const [entry] = readZipEntries(FILE, archive);
+
+    assert.throws(() => entry.read(), /is truncated/);
+  });
+});
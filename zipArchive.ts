@@ -0,0 +1,111 @@
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_LOCATOR_SIZE = 20;
+// Sizes and offsets that do not fit are set to this, and the real value is in a ZIP64 extra field
+const ZIP64_MARKER = 0xffffffff;
+// The end of central directory record is 22 bytes, followed by a comment of up to 65535 bytes
+const MAX_END_OF_CENTRAL_DIRECTORY_SIZE = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  /**
+   * Path of the entry inside the archive, with / separators
+   */
+  name: string;
+  read(): Buffer;
+}
+
+function findEndOfCentralDirectory(file: string, archive: Buffer): number {
+  const start = Math.max(0, archive.length - MAX_END_OF_CENTRAL_DIRECTORY_SIZE);
+  for (let offset = archive.length - 22; offset >= start; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error(`${file} is not a ZIP archive`);
+}
+
+function getZip64Error(file: string): Error {
+  return new Error(`${file} is a ZIP64 archive, which is not supported. Unzip it and pass the directory instead.`);
+}
+
+/**
+ * List the files in a ZIP archive. Entries are only decompressed when they are read. Only stored and deflated entries
+ * of unencrypted archives under 4GB (not ZIP64) are supported, which covers the archives Amazon exports.
+ */
+export function readZipEntries(file: string, archive: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(file, archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const locator = end - ZIP64_LOCATOR_SIZE;
+  if (
+    entryCount === 0xffff ||
+    offset === ZIP64_MARKER ||
+    (locator >= 0 && archive.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE)
+  ) {
+    throw getZip64Error(file);
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > end || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`${file} has a corrupt ZIP central directory`);
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const uncompressedSize = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older archivers use code page 437, which matches latin1 for ASCII names
+    const name = archive.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if ([compressedSize, uncompressedSize, localHeaderOffset].includes(ZIP64_MARKER)) {
+      throw getZip64Error(file);
+    }
+    entries.push({
+      name,
+      read: () => {
+        if (flags & 0x1) {
+          throw new Error(
+            `${file}: ${name} is encrypted, which is not supported. Unzip it and pass the directory instead.`,
+          );
+        }
+        if (
+          localHeaderOffset + 30 > archive.length ||
+          archive.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE
+        ) {
+          throw new Error(`${file}: ${name} has a corrupt ZIP header`);
+        }
+        // The local header repeats the name, but its extra field can differ from the central directory's
+        const localNameLength = archive.readUInt16LE(localHeaderOffset + 26);
+        const localExtraLength = archive.readUInt16LE(localHeaderOffset + 28);
+        const dataOffset = localHeaderOffset + 30 + localNameLength + localExtraLength;
+        if (dataOffset + compressedSize > archive.length) {
+          throw new Error(`${file}: ${name} is truncated`);
+        }
+        const data = archive.subarray(dataOffset, dataOffset + compressedSize);
+        if (method === STORED) {
+          return data;
+        }
+        if (method === DEFLATED) {
+          return inflateRawSync(data);
+        }
+        throw new Error(`${file}: ${name} uses unsupported ZIP compression method ${method}`);
+      },
+    });
+  }
+  return entries;
+}